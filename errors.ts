@@ -0,0 +1,18 @@
+export class HttpError extends Error {
+  status: number;
+  retryAfter: number | undefined;
+  constructor(status: number, message: string, retryAfter?: number) {
+    super(message);
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Keeps the provider's own status so failover can tell outages from bad requests.
+export class UpstreamError extends HttpError {
+  upstreamStatus: number;
+  constructor(upstreamStatus: number, status: number, message: string, retryAfter?: number) {
+    super(status, message, retryAfter);
+    this.upstreamStatus = upstreamStatus;
+  }
+}
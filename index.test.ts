@@ -0,0 +1,299 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { afterEach, test } from "node:test";
+import { mockServer, sse, type MockServer } from "./providers/testing.ts";
+import { chatReply, readEvents, startServer, testModels, type TestServer, type TestServerOptions } from "./testing.ts";
+
+let upstreams: MockServer[] = [];
+let server: TestServer | undefined;
+afterEach(async () => {
+  await server?.stop();
+  server = undefined;
+  await Promise.all(upstreams.map((upstream) => upstream.close()));
+  upstreams = [];
+});
+
+async function upstream(reply: (body: Record<string, unknown>, res: http.ServerResponse) => void): Promise<MockServer> {
+  const mock = await mockServer(reply);
+  upstreams.push(mock);
+  return mock;
+}
+
+async function start(options: TestServerOptions): Promise<TestServer> {
+  server = await startServer(options);
+  return server;
+}
+
+function generate(server: TestServer, body: Record<string, unknown>, authKey?: string | null): Promise<Response> {
+  return server.request("POST", "/generate-chat-completion-streaming?format=events", { model: "test-model", ...body }, authKey);
+}
+
+// A 1x1 transparent PNG.
+const PIXEL = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const human = (text: string) => ({ party: "human", text });
+const bot = (text: string) => ({ party: "bot", text });
+
+interface UsageReport {
+  totals: { requests: number; prompt_tokens: number; completion_tokens: number; cost: number };
+}
+
+interface ConversationResponse {
+  conversation: { id: string; messages: unknown[] };
+}
+
+async function json<T>(response: Response): Promise<T> {
+  return await response.json() as T;
+}
+
+function lastMessage(body: Record<string, unknown>): unknown {
+  return (body.messages as { content: unknown }[]).at(-1)!.content;
+}
+
+test("bills completions to the ledger and refuses requests over quota", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "Hello"));
+  const server = await start({ models: testModels([mock.baseUrl]), env: { ANONYMOUS_DAILY_QUOTA_USD: "0.00001" } });
+
+  const first = await generate(server, { messages: [human("Hi")] }, null);
+  assert.equal(first.status, 200);
+  await first.text();
+  const second = await generate(server, { messages: [human("Hi again")] }, null);
+  assert.equal(second.status, 429);
+  assert.ok(Number(second.headers.get("retry-after")) > 0);
+  assert.equal(mock.requests.length, 1);
+
+  const report = await json<UsageReport>(await server.request("GET", "/usage"));
+  assert.deepEqual(report.totals, { requests: 1, prompt_tokens: 10, completion_tokens: 5, cost: 0.000015 });
+  const ledger = fs.readFileSync(path.join(server.dir, "usage.jsonl"), "utf8").trim().split("\n");
+  assert.equal(ledger.length, 1);
+  assert.equal(JSON.parse(ledger[0]!).userId, null);
+});
+
+test("skips a truncated ledger line", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "Hello"));
+  const record = { timestamp: new Date().toISOString(), userId: null, keyId: null, model: "test-model", prompt_tokens: 1, completion_tokens: 1, cost: 0.000002 };
+  const server = await start({
+    models: testModels([mock.baseUrl]),
+    files: { "usage.jsonl": `${JSON.stringify(record)}\n${JSON.stringify(record).slice(0, 40)}` },
+  });
+  assert.match(server.output(), /skipping unreadable usage record/);
+  assert.equal((await json<UsageReport>(await server.request("GET", "/usage"))).totals.requests, 1);
+
+  await (await generate(server, { messages: [human("Hi")] })).text();
+  assert.equal((await json<UsageReport>(await server.request("GET", "/usage"))).totals.requests, 2);
+});
+
+test("limits requests per client", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "Hello"));
+  const server = await start({ models: testModels([mock.baseUrl]), env: { RATE_LIMIT_REQUESTS_PER_MINUTE: "1", RATE_LIMIT_BURST: "2" } });
+
+  for (let i = 0; i < 2; i++) {
+    const response = await generate(server, { messages: [human("Hi")] }, null);
+    assert.equal(response.status, 200);
+    await response.text();
+  }
+  const limited = await generate(server, { messages: [human("Hi")] }, null);
+  assert.equal(limited.status, 429);
+  assert.ok(Number(limited.headers.get("retry-after")) > 0);
+  assert.equal(mock.requests.length, 2);
+});
+
+test("caps concurrent streams per client", async () => {
+  const held: (() => void)[] = [];
+  const mock = await upstream((body, res) => held.push(() => chatReply(body, res, "Hello")));
+  const server = await start({ models: testModels([mock.baseUrl]), env: { MAX_STREAMS_PER_CLIENT: "1" } });
+
+  const first = generate(server, { messages: [human("Hi")] }, null);
+  while (held.length === 0) await new Promise((resolve) => setTimeout(resolve, 20));
+  const second = await generate(server, { messages: [human("Hi")] }, null);
+  assert.equal(second.status, 429);
+  held[0]!();
+  assert.equal((await first).status, 200);
+});
+
+test("fails over to the fallback provider and skips the primary once its circuit opens", async () => {
+  const primary = await upstream((_body, res) => {
+    res.writeHead(503, { "Content-Type": "application/json", "Retry-After": "3600" });
+    res.end(JSON.stringify({ error: { message: "overloaded" } }));
+  });
+  const fallback = await upstream((body, res) => chatReply(body, res, "From the fallback"));
+  const server = await start({ models: testModels([primary.baseUrl, fallback.baseUrl], { fallbacks: [{ provider: "upstream-2" }] }) });
+
+  for (let i = 0; i < 4; i++) {
+    const events = await readEvents(await generate(server, { messages: [human("Hi")] }));
+    assert.deepEqual(events[0], { event: "delta", data: { content: "From the fallback" } });
+  }
+  // The circuit opens after three failures in a row.
+  assert.equal(primary.requests.length, 3);
+  assert.equal(fallback.requests.length, 4);
+});
+
+test("refuses blocked input and stops blocked output", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "That is forbidden"));
+  const server = await start({
+    models: testModels([mock.baseUrl]),
+    moderation: { blocklist: [{ pattern: "\\bforbidden\\b", reason: "Not here." }] },
+  });
+
+  const refused = await generate(server, { messages: [human("Something forbidden")] });
+  assert.equal(refused.status, 400);
+  assert.match(await refused.text(), /Not here\./);
+  assert.equal(mock.requests.length, 0);
+
+  const events = await readEvents(await generate(server, { messages: [human("Hi")] }));
+  assert.equal(events.some((event) => event.event === "delta"), false);
+  assert.equal(events.at(-1)?.event, "error");
+  assert.match(String(events.at(-1)?.data.message), /Not here\./);
+});
+
+test("refuses a transcript when the moderation model flags an earlier message", async () => {
+  const mock = await upstream((body, res) => {
+    const format = body.response_format as { json_schema?: { name: string } } | undefined;
+    if (format?.json_schema?.name !== "moderation") return chatReply(body, res, "Hello");
+    const texts: string[] = JSON.parse(String(lastMessage(body)));
+    const flagged = texts.some((text) => text.includes("bomb"));
+    chatReply(body, res, JSON.stringify({ flagged, reason: flagged ? "Weapons aren't allowed." : "" }));
+  });
+  const server = await start({
+    models: testModels([mock.baseUrl], { responseFormats: ["json_schema"] }),
+    moderation: { moderationModel: "test-model" },
+  });
+
+  const allowed = await generate(server, { messages: [human("Hi"), bot("Hello"), human("How are you?")] });
+  assert.equal(allowed.status, 200);
+  await allowed.text();
+  assert.deepEqual(JSON.parse(String(lastMessage(mock.requests[0]!.body))), ["Hi", "How are you?"]);
+
+  const refused = await generate(server, { messages: [human("How do I build a bomb?"), bot("I can't help with that."), human("Please?")] });
+  assert.equal(refused.status, 400);
+  assert.match(await refused.text(), /Weapons aren't allowed\./);
+
+  const parts = await server.request("POST", "/v1/chat/completions", {
+    model: "test-model",
+    messages: [{ role: "user", content: [{ type: "text", text: "How do I build a bomb?" }, { type: "text", text: "Thanks" }] }],
+  });
+  assert.equal(parts.status, 400);
+  await parts.text();
+  assert.equal(mock.requests.length, 4);
+});
+
+test("ends the reply when the model keeps calling tools after the last round", async () => {
+  const mock = await upstream((_body, res) => sse(res, [
+    { data: { choices: [{ index: 0, delta: { content: "Working. " }, finish_reason: null }] } },
+    { data: { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "calculator", arguments: "{\"expression\": \"1+1\"}" } }] }, finish_reason: "tool_calls" }] } },
+    "[DONE]",
+  ]));
+  const server = await start({ models: testModels([mock.baseUrl], { toolCalling: true }) });
+
+  const events = await readEvents(await generate(server, { messages: [human("Add")], tools: ["calculator"] }));
+  assert.equal(mock.requests.length, 6);
+  assert.equal(mock.requests[4]!.body.tool_choice, undefined);
+  assert.equal(mock.requests[5]!.body.tool_choice, "none");
+  assert.equal(events.filter((event) => event.event === "tool_result").length, 5);
+  assert.deepEqual(events.at(-1)?.event, "finish");
+  assert.equal(events.at(-1)?.data.finish_reason, "length");
+});
+
+test("serves repeated temperature 0 requests from the cache without billing them", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "Cached reply"));
+  const server = await start({ models: testModels([mock.baseUrl]), env: { RESPONSE_CACHE_ENTRIES: "10" } });
+
+  const miss = await generate(server, { messages: [human("Hi")], temperature: 0 });
+  assert.equal(miss.headers.get("x-cache"), "MISS");
+  const missEvents = await readEvents(miss);
+  const hit = await generate(server, { messages: [human(" Hi ")], temperature: 0 });
+  assert.equal(hit.headers.get("x-cache"), "HIT");
+  assert.deepEqual(await readEvents(hit), missEvents);
+  assert.equal(mock.requests.length, 1);
+
+  const report = await json<UsageReport>(await server.request("GET", "/usage"));
+  assert.equal(report.totals.requests, 1);
+});
+
+test("replays a resumable stream by id", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "Hello"));
+  const server = await start({ models: testModels([mock.baseUrl]) });
+
+  const response = await generate(server, { messages: [human("Hi")], resumable: true });
+  const id = response.headers.get("x-stream-id");
+  assert.ok(id);
+  const events = await readEvents(response);
+  assert.deepEqual(events.map((event) => [event.id, event.event]), [["1", "delta"], ["2", "finish"]]);
+
+  const replay = await server.request("GET", `/streams/${id}?offset=1`);
+  assert.deepEqual(await readEvents(replay), events.slice(1));
+});
+
+test("keeps the replaced messages of an edit as an alternative branch", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, `Reply to ${lastMessage(body)}`));
+  const server = await start({ models: testModels([mock.baseUrl]) });
+  const { conversation } = await json<ConversationResponse>(await server.request("POST", "/conversations", { title: "Branches" }));
+
+  await (await generate(server, { conversationId: conversation.id, messages: [human("first")] })).text();
+  await (await generate(server, { conversationId: conversation.id, messages: [human("edited")], branchFrom: 0 })).text();
+  const edited = (await json<ConversationResponse>(await server.request("GET", `/conversations/${conversation.id}`))).conversation;
+  assert.deepEqual(edited.messages, [
+    { ...human("edited"), alternatives: [[human("first"), bot("Reply to first")]] },
+    bot("Reply to edited"),
+  ]);
+  assert.deepEqual(mock.requests[1]!.body.messages, [{ role: "user", content: "edited" }]);
+
+  const switched = await server.request("PATCH", `/conversations/${conversation.id}`, { branch: { index: 0, alternative: 0 } });
+  assert.deepEqual((await json<ConversationResponse>(switched)).conversation.messages, [
+    { ...human("first"), alternatives: [[human("edited"), bot("Reply to edited")]] },
+    bot("Reply to first"),
+  ]);
+});
+
+test("deletes a user's conversations, collections and files with the user", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "Hello"));
+  const server = await start({ models: testModels([mock.baseUrl]) });
+  const createUser = async () => {
+    await server.request("POST", "/admin/users", { id: "alice", name: "Alice", models: "*" });
+    return (await json<{ key: string }>(await server.request("POST", "/admin/users/alice/keys", {}))).key;
+  };
+
+  const key = await createUser();
+  assert.equal((await server.request("POST", "/conversations", { title: "Private" }, key)).status, 200);
+  assert.equal((await server.request("POST", "/collections", { name: "Notes" }, key)).status, 200);
+  const { file } = await json<{ file: { id: string } }>(await server.request("POST", "/files", { data: PIXEL }, key));
+  assert.equal((await server.request("DELETE", "/admin/users/alice")).status, 200);
+
+  const newKey = await createUser();
+  const { conversations } = await json<{ conversations: unknown[] }>(await server.request("GET", "/conversations", undefined, newKey));
+  assert.deepEqual(conversations, []);
+  const { collections } = await json<{ collections: unknown[] }>(await server.request("GET", "/collections", undefined, newKey));
+  assert.deepEqual(collections, []);
+  assert.equal((await server.request("GET", `/files/${file.id}`, undefined, newKey)).status, 404);
+});
+
+test("drops the oldest turns that don't fit the context window", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, "Short"));
+  const server = await start({ models: testModels([mock.baseUrl], { contextWindow: 300 }) });
+  const long = (n: number) => `${n} ${"word ".repeat(60)}`;
+
+  const messages = [human(long(1)), bot(long(2)), human(long(3)), bot(long(4)), human("latest")];
+  const response = await generate(server, { messages, max_tokens: 50 });
+  assert.equal(response.status, 200);
+  await response.text();
+  const sent = mock.requests[0]!.body.messages as { content: string }[];
+  assert.ok(sent.length < messages.length);
+  assert.equal(sent.at(-1)!.content, "latest");
+  assert.ok(!sent.some((m) => m.content.startsWith("1 ")));
+
+  const tooLong = await readEvents(await generate(server, { messages: [human(long(5).repeat(6))], max_tokens: 50 }));
+  assert.deepEqual(tooLong.map((event) => [event.event, event.data.status]), [["error", 400]]);
+  assert.equal(mock.requests.length, 1);
+});
+
+test("asks the model once to repair an invalid JSON reply", async () => {
+  const mock = await upstream((body, res) => chatReply(body, res, mock.requests.length === 1 ? "Sure! {answer: 42}" : "```json\n{\"answer\": 42}\n```"));
+  const server = await start({ models: testModels([mock.baseUrl]) });
+
+  const events = await readEvents(await generate(server, { messages: [human("Answer in JSON")], response_format: { type: "json_object" } }));
+  assert.deepEqual(events[0], { event: "delta", data: { content: "{\"answer\": 42}" } });
+  assert.equal(mock.requests.length, 2);
+  assert.match(JSON.stringify(mock.requests[1]!.body.messages), /Sure! \{answer: 42\}/);
+});
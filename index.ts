@@ -1,4 +1,6 @@
 import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
 import http from "http";
 import https from "https";
 import { z } from "zod";
@@ -24,100 +26,473 @@ function parseCookie(str: string): Cookies {
 }
 import GPT3Tokenizer from "gpt3-tokenizer";
 import crypto from "crypto";
-import secrets from "./secrets.json" with { type: "json" };
+import { AsyncLocalStorage } from "async_hooks";
+import { HttpError, UpstreamError } from "./errors.ts";
+import { PROVIDER_APIS, SAMPLING_PARAM_NAMES, TOKENIZER_FAMILIES, type ChatContentPart, type ChatData, type ChatMessage, type JsonResponseFormat, type LogProbContent, type Logprobs, type ModelConfig, type SamplingParamName, type SamplingParams, type TokenizerFamily, type ToolCall, type ToolDefinition, type ToolParams, type Usage } from "./providers/types.ts";
+import { DEFAULT_REPLY_TOKENS, DoubleNewlineReader, bearerHeaders, chatContentText, parseDataUrl, providerAdapters, readStreamEvents, upstreamSamplingParams, type CompletionDelta, type ProviderAdapter } from "./providers/index.ts";
 
+const LogLevelSchema = z.enum(["debug", "info", "warn", "error"]);
+type LogLevel = z.infer<typeof LogLevelSchema>;
+
+const LOG_LEVEL = LogLevelSchema.catch("info").parse(process.env.LOG_LEVEL);
+// Prompts and completions are replaced by their length unless LOG_CONTENT=1.
+const LOG_CONTENT = process.env.LOG_CONTENT === "1";
+
+// Carries the request id through everything a request awaits, so log lines
+// from deep inside (retries, failover) can be tied back to it.
+const requestScope = new AsyncLocalStorage<{ requestId: string }>();
+
+function logValue(_key: string, value: unknown) {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...(value instanceof HttpError ? { status: value.status } : { stack: value.stack }),
+    };
+  }
+  return value;
+}
+
+// One JSON object per line; warnings and errors go to stderr.
+function log(level: LogLevel, msg: string, fields: Record<string, unknown> = {}) {
+  if (LogLevelSchema.options.indexOf(level) < LogLevelSchema.options.indexOf(LOG_LEVEL)) return;
+  const requestId = requestScope.getStore()?.requestId;
+  const line = JSON.stringify({ time: new Date().toISOString(), level, msg, ...(requestId ? { requestId } : {}), ...fields }, logValue);
+  (level === "warn" || level === "error" ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => log("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => log("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => log("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => log("error", msg, fields),
+};
+
+function redactContent(text: string): string | { redacted: true; chars: number } {
+  return LOG_CONTENT ? text : { redacted: true, chars: text.length };
+}
+
+const SECRETS_FILE = process.env.SECRETS_FILE ?? "./secrets.json";
+
+const secrets: Record<string, string | undefined> = (() => {
+  try {
+    return z.record(z.string(), z.string()).parse(JSON.parse(fs.readFileSync(SECRETS_FILE, "utf8")));
+  } catch (error) {
+    logger.error("invalid secrets file", { file: SECRETS_FILE, error: (error as Error).message });
+    process.exit(1);
+  }
+})();
+
+// Provider tokens are checked against models.json when the registry loads.
 const REQUIRED_SECRETS = [
   "AUTH_KEY",
-  "BEARER_TOKEN",
-  "DEEPINFRA_BEARER_TOKEN",
-  "OPENROUTER_BEARER_TOKEN",
-  "TOGETHER_BEARER_TOKEN",
 ] as const;
 
-const missingSecrets = REQUIRED_SECRETS.filter((key) => !secrets[key as keyof typeof secrets]);
+const missingSecrets = REQUIRED_SECRETS.filter((key) => !secrets[key]);
 if (missingSecrets.length > 0) {
-  console.error(`FATAL: Missing keys in secrets.json:\n  ${missingSecrets.join("\n  ")}`);
+  logger.error("missing keys in secrets file", { file: SECRETS_FILE, keys: missingSecrets });
   process.exit(1);
 }
 
-const MAX_TOKENS = 4097;
 const TOKENS_SAFETY_MARGIN = 25;
+// Role markers and separators each chat message adds on top of its content.
+const MESSAGE_TOKEN_OVERHEAD = 4;
+// Providers bill images by resolution; this covers a high-detail 1024px image.
+const IMAGE_TOKEN_ESTIMATE = 800;
 const tokenizer = new GPT3Tokenizer.default({ type: "gpt3" });
 
-const origins = [
-  process.env.FRONTEND_URL_1,
-  process.env.FRONTEND_URL_2,
-].flatMap((f) => (f ? [f] : []));
+const CONVERSATIONS_DIR = process.env.CONVERSATIONS_DIR ?? "./data/conversations";
+const FILES_DIR = process.env.FILES_DIR ?? "./data/files";
+const COLLECTIONS_DIR = process.env.COLLECTIONS_DIR ?? "./data/collections";
+const USERS_FILE = process.env.USERS_FILE ?? "./data/users.json";
+const USAGE_FILE = process.env.USAGE_FILE ?? "./data/usage.jsonl";
+
+// Unset or empty means no limit. Anything else has to be a number of dollars;
+// a typo stops the server instead of silently disabling the limit.
+function optionalNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    logger.error("invalid amount in environment", { name, value });
+    process.exit(1);
+  }
+  return number;
+}
+
+// Unset or empty takes the default. Anything else has to pass `schema`, so a
+// typo stops the server instead of turning a limit into NaN.
+function envNumber(name: string, schema: z.ZodType<number>, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const result = schema.safeParse(Number(value));
+  if (!result.success) {
+    logger.error("invalid number in environment", { name, value, error: z.prettifyError(result.error) });
+    process.exit(1);
+  }
+  return result.data;
+}
+
+// Optional embeddings for document collections: a provider from models.json
+// with an OpenAI-compatible /embeddings route, and the model to use there.
+const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || undefined;
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || undefined;
+const EMBEDDING_BATCH_SIZE = 64;
+const EMBEDDING_TIMEOUT_MS = 60_000;
+
+const MAX_DOCUMENT_CHARS = 500_000;
+const CHUNK_MAX_CHARS = 1500;
+const CHUNK_OVERLAP_CHARS = 200;
+const RETRIEVAL_TOP_K = 4;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Reciprocal rank fusion constant; 60 is the usual choice.
+const RRF_K = 60;
+
+// Shared spending pool for everyone using the public models without a key.
+const ANONYMOUS_QUOTA: Quota = {
+  daily: optionalNumber("ANONYMOUS_DAILY_QUOTA_USD"),
+  monthly: optionalNumber("ANONYMOUS_MONTHLY_QUOTA_USD"),
+};
+
+// Per-client token bucket for generation requests, plus caps on concurrent
+// streams per client and per upstream provider.
+const RATE_LIMIT_REQUESTS_PER_MINUTE = envNumber("RATE_LIMIT_REQUESTS_PER_MINUTE", z.number().positive(), 20);
+const RATE_LIMIT_BURST = envNumber("RATE_LIMIT_BURST", z.int().positive(), 10);
+const MAX_STREAMS_PER_CLIENT = envNumber("MAX_STREAMS_PER_CLIENT", z.int().positive(), 3);
+const MAX_STREAMS_PER_PROVIDER = envNumber("MAX_STREAMS_PER_PROVIDER", z.int().positive(), 32);
+// How long a resumable stream keeps generating with nobody connected, and
+// how long its events are kept after it finishes.
+const RESUME_GRACE_MS = envNumber("RESUME_GRACE_SECONDS", z.number().nonnegative(), 60) * 1000;
 
-console.log("origins", origins);
+// Response cache for repeated requests; off unless RESPONSE_CACHE_ENTRIES is set.
+const RESPONSE_CACHE_ENTRIES = envNumber("RESPONSE_CACHE_ENTRIES", z.int().nonnegative(), 0);
+const RESPONSE_CACHE_TTL_SECONDS = envNumber("RESPONSE_CACHE_TTL_SECONDS", z.number().positive(), 3600);
+const RESPONSE_CACHE_DIR = process.env.RESPONSE_CACHE_DIR || undefined;
+const RESPONSE_CACHE_SWEEP_MS = 10 * 60_000;
 
 const port = process.env.PORT ?? 3000;
 const httpPort = process.env.HTTP_PORT ?? 8080;
 
-const MODEL_SETTINGS = {
-  "mistralai/Mixtral-8x7B-Instruct-v0.1": { provider: "deepinfra", authed: false },
-  "meta-llama/Meta-Llama-3.1-405B-Instruct": { provider: "deepinfra", authed: false },
-  "meta-llama/Llama-3-70b-chat-hf": { provider: "together", authed: false },
-  "anthropic/claude-3-opus:beta": { provider: "openrouter", authed: false },
-  "anthropic/claude-3.5-sonnet": { provider: "openrouter", authed: false },
-  "mistralai/mistral-large": { provider: "openrouter", authed: false },
-  "deepseek/deepseek-coder": { provider: "openrouter", authed: false },
-  "gpt-3.5-turbo-instruct": { provider: "openai", authed: false },
-  "gpt-3.5-turbo": { provider: "openai", authed: false },
-  "gpt-4": { provider: "openai", authed: true },
-  "gpt-4-1106-preview": { provider: "openai", authed: false },
-  "gpt-4.1": { provider: "openai", authed: true },
-  "gpt-4.1-mini": { provider: "openai", authed: true },
-  "gpt-4.1-nano": { provider: "openai", authed: true },
-  "gpt-5": { provider: "openai", authed: true },
-  "gpt-5-chat-latest": { provider: "openai", authed: true },
-  "gpt-4o-mini": { provider: "openai", authed: false },
-  "gpt-4o": { provider: "openai", authed: false },
-  "o1-preview": { provider: "openai", authed: true },
-  "o1-mini": { provider: "openai", authed: true },
-} as const;
-type Model = keyof typeof MODEL_SETTINGS;
-const MODELS = Object.keys(MODEL_SETTINGS) as Model[];
-
-const NON_STREAMING_MODELS = new Set<Model>(["o1-preview", "o1-mini", "gpt-5"]);
-
-interface TopLogProb {
-  token: string;
-  logprob: number;
-  selected?: boolean;
-}
-
-interface LogProbContent {
-  token: string;
-  logprob: number;
-  bytes: number[];
-  top_logprobs: TopLogProb[];
-}
-
-interface Logprobs {
-  content: LogProbContent[];
-  refusal: string | null;
+const MODELS_FILE = process.env.MODELS_FILE ?? "./models.json";
+const PRESETS_FILE = process.env.PRESETS_FILE ?? "./presets.json";
+const MODERATION_FILE = process.env.MODERATION_FILE ?? "./moderation.json";
+const SERVER_FILE = process.env.SERVER_FILE ?? "./server.json";
+const CONFIG_RELOAD_DEBOUNCE_MS = 200;
+
+// Exact origins, or `https://*.example.com` for any subdomain of example.com.
+// The wildcard only goes at the start of the host: credentials are allowed,
+// so origins are never matched more loosely than that.
+const CorsOriginSchema = z.string().regex(/^https?:\/\/(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d+)?$/i, {
+  error: "origins look like https://example.com or https://*.example.com",
+});
+
+const ServerFileSchema = z.object({
+  corsOrigins: z.array(CorsOriginSchema).default([]),
+  // null serves plain HTTP only, with TLS terminated by a reverse proxy.
+  tls: z.object({
+    key: z.string().default("./key.pem"),
+    cert: z.string().default("./cert.pem"),
+  }).nullable().default({ key: "./key.pem", cert: "./cert.pem" }),
+  // What the plain-HTTP server on HTTP_PORT does: refuse with a 403, redirect
+  // to HTTPS, or serve the API.
+  http: z.enum(["forbid", "redirect", "serve"]).default("forbid"),
+  // Trust X-Forwarded-For, -Host and -Proto from a reverse proxy in front.
+  trustProxy: z.boolean().default(false),
+  // How long shutdown waits for running streams before cutting them off.
+  shutdownTimeoutSeconds: z.number().nonnegative().default(30),
+}).refine((config) => config.tls !== null || config.http === "serve", {
+  error: "without tls, http must be \"serve\"",
+  path: ["http"],
+});
+type ServerConfig = z.infer<typeof ServerFileSchema>;
+
+interface ServerSettings {
+  config: ServerConfig;
+  corsOrigins: RegExp[];
+  certificates: { key: Buffer; cert: Buffer } | undefined;
+}
+
+function corsOriginPattern(origin: string): RegExp {
+  const escaped = origin.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace("\\*\\.", "[a-z0-9-]+(?:\\.[a-z0-9-]+)*\\.")}$`, "i");
+}
+
+// Without a server file, CORS origins come from the older FRONTEND_URL_1 and
+// FRONTEND_URL_2 variables so existing deployments keep working.
+function loadServerSettings(file: string): ServerSettings {
+  let config: ServerConfig;
+  try {
+    config = ServerFileSchema.parse(JSON.parse(fs.readFileSync(file, "utf8")));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    config = ServerFileSchema.parse({
+      corsOrigins: [process.env.FRONTEND_URL_1, process.env.FRONTEND_URL_2].flatMap((f) => (f ? [f.replace(/\/$/, "")] : [])),
+    });
+  }
+  return {
+    config,
+    corsOrigins: config.corsOrigins.map(corsOriginPattern),
+    certificates: config.tls ? { key: fs.readFileSync(config.tls.key), cert: fs.readFileSync(config.tls.cert) } : undefined,
+  };
+}
+
+let serverSettings: ServerSettings = (() => {
+  try {
+    return loadServerSettings(SERVER_FILE);
+  } catch (error) {
+    logger.error("invalid server file", { file: SERVER_FILE, error: (error as Error).message });
+    process.exit(1);
+  }
+})();
+
+logger.info("cors origins", { origins: serverSettings.config.corsOrigins });
+
+// The HTTPS listener is only created at startup, so turning TLS on or off
+// needs a restart; renewed certificates are picked up on reload.
+function reloadServerSettings(reason: string): boolean {
+  try {
+    const settings = loadServerSettings(SERVER_FILE);
+    if ((settings.certificates === undefined) !== (serverSettings.certificates === undefined)) {
+      throw new Error("Turning tls on or off needs a restart");
+    }
+    if (settings.certificates) httpsServer?.setSecureContext(settings.certificates);
+    serverSettings = settings;
+    logger.info("server file reloaded", { file: SERVER_FILE, reason, origins: settings.config.corsOrigins });
+    return true;
+  } catch (error) {
+    logger.error("server file reload failed, keeping the previous settings", { file: SERVER_FILE, reason, error: (error as Error).message });
+    return false;
+  }
+}
+
+// Only the value set by the nearest proxy is used; anything before it came
+// from the client and can be forged.
+function forwardedHeader(req: http.IncomingMessage, name: string): string | undefined {
+  if (!serverSettings.config.trustProxy) return undefined;
+  const value = req.headers[name];
+  return (typeof value === "string" ? value.split(",").at(-1)?.trim() : undefined) || undefined;
+}
+
+function secretValue(name: string): string | undefined {
+  return secrets[name];
+}
+
+const SystemMessageModeSchema = z.enum(["default", "custom"]);
+
+// Wire format spoken by a provider, see providerAdapters.
+const ProviderApiSchema = z.enum(PROVIDER_APIS);
+
+const ProviderSettingsSchema = z.object({
+  api: ProviderApiSchema.default("openai"),
+  // OpenAI chat requests go to `${baseUrl}/chat/completions`, instruct ones to `${baseUrl}/completions`.
+  baseUrl: z.url(),
+  // Local servers like Ollama don't need a token.
+  tokenSecret: z.string().optional(),
+  stop: z.string().optional(),
+  streaming: z.boolean().default(true),
+  // Ask an OpenAI-format server for usage in streamed replies with
+  // stream_options. Not every compatible server accepts the field; without
+  // it, usage is estimated with the model's tokenizer.
+  streamUsage: z.boolean().default(false),
+  systemMessage: SystemMessageModeSchema.default("default"),
+});
+
+const SamplingParamNameSchema = z.enum(SAMPLING_PARAM_NAMES);
+
+const ModelRouteSchema = z.object({
+  provider: z.string(),
+  // The provider's name for the model, when it differs from ours.
+  upstreamModel: z.string().optional(),
+  stop: z.string().nullable().optional(),
+});
+
+// Picks the scale applied to GPT-3 token counts, see TOKENIZER_SCALE. None of
+// these are exact.
+const TokenizerFamilySchema = z.enum(TOKENIZER_FAMILIES);
+
+const ModelSettingsSchema = z.object({
+  provider: z.string(),
+  upstreamModel: z.string().optional(),
+  // Tried in order when the primary provider fails before anything was streamed.
+  fallbacks: z.array(ModelRouteSchema).default([]),
+  authed: z.boolean().default(false),
+  apiType: z.enum(["chat", "instruct"]).default("chat"),
+  streaming: z.boolean().optional(),
+  systemMessage: SystemMessageModeSchema.optional(),
+  // Models without a system role get system prompts folded into the first user message.
+  systemRole: z.boolean().default(true),
+  // null sends no stop sequence, for models that reject one.
+  stop: z.string().nullable().optional(),
+  aliases: z.array(z.string()).default([]),
+  // Sampling parameters the model rejects; they're dropped before forwarding.
+  unsupportedParams: z.array(SamplingParamNameSchema).default([]),
+  maxTokensParam: z.enum(["max_tokens", "max_completion_tokens"]).default("max_tokens"),
+  maxOutputTokens: z.int().positive().optional(),
+  // `response_format` types the provider enforces natively. Other JSON
+  // requests rely on instructions in the prompt plus server-side validation.
+  responseFormats: z.array(z.enum(["json_object", "json_schema"])).default([]),
+  // Whether the provider returns per-token log probabilities for the model.
+  logprobs: z.boolean().default(false),
+  // Reasoning models may stream their thinking and take `reasoning_effort`.
+  reasoning: z.boolean().default(false),
+  // Whether the model accepts image parts in user messages.
+  vision: z.boolean().default(false),
+  // Whether the model accepts OpenAI-style `tools` and returns tool calls.
+  toolCalling: z.boolean().default(false),
+  // Whether the provider carries on from a trailing assistant message instead
+  // of starting a new reply. Defaults to true for Anthropic and Ollama.
+  prefill: z.boolean().optional(),
+  // Prompt and reply together; older turns are dropped to fit.
+  contextWindow: z.int().positive(),
+  tokenizer: TokenizerFamilySchema.default("gpt"),
+  temperatureRange: z.tuple([z.number(), z.number()]).default([0, 2]),
+  // USD per million tokens, used for usage accounting and quotas.
+  price: z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+  }),
+});
+
+const ModelRegistrySchema = z.object({
+  providers: z.record(z.string(), ProviderSettingsSchema),
+  models: z.record(z.string(), ModelSettingsSchema),
+}).superRefine((registry, ctx) => {
+  for (const [name, provider] of Object.entries(registry.providers)) {
+    if (provider.tokenSecret !== undefined && !secretValue(provider.tokenSecret)) {
+      ctx.addIssue({ code: "custom", path: ["providers", name, "tokenSecret"], message: `Missing key ${provider.tokenSecret} in ${SECRETS_FILE}` });
+    }
+  }
+  const names = new Set(Object.keys(registry.models));
+  for (const [name, settings] of Object.entries(registry.models)) {
+    const checkProvider = (provider: string, path: (string | number)[]) => {
+      const providerSettings = registry.providers[provider];
+      if (!providerSettings) {
+        ctx.addIssue({ code: "custom", path, message: `Unknown provider ${provider}` });
+      } else if (settings.apiType === "instruct" && providerSettings.api !== "openai") {
+        ctx.addIssue({ code: "custom", path, message: `Instruct models need an OpenAI-compatible provider, ${provider} uses ${providerSettings.api}` });
+      }
+    };
+    checkProvider(settings.provider, ["models", name, "provider"]);
+    settings.fallbacks.forEach((route, i) => checkProvider(route.provider, ["models", name, "fallbacks", i, "provider"]));
+    for (const alias of settings.aliases) {
+      if (names.has(alias)) {
+        ctx.addIssue({ code: "custom", path: ["models", name, "aliases"], message: `Alias ${alias} is already in use` });
+      }
+      names.add(alias);
+    }
+  }
+});
+
+type Model = string;
+
+interface ModelRegistry extends z.infer<typeof ModelRegistrySchema> {
+  aliases: Map<string, Model>;
+}
+
+function loadModelRegistry(file: string): ModelRegistry {
+  const registry = ModelRegistrySchema.parse(JSON.parse(fs.readFileSync(file, "utf8")));
+  const aliases = new Map<string, Model>();
+  for (const [name, settings] of Object.entries(registry.models)) {
+    for (const alias of settings.aliases) aliases.set(alias, name);
+  }
+  return { ...registry, aliases };
+}
+
+// Replaced wholesale on reload. In-flight requests keep the ModelConfig they
+// resolved at the start, so a reload never changes a stream mid-way.
+let modelRegistry: ModelRegistry = (() => {
+  try {
+    return loadModelRegistry(MODELS_FILE);
+  } catch (error) {
+    logger.error("invalid models file", { file: MODELS_FILE, error: (error as Error).message });
+    process.exit(1);
+  }
+})();
+
+function reloadModelRegistry(reason: string): boolean {
+  try {
+    modelRegistry = loadModelRegistry(MODELS_FILE);
+    logger.info("models file reloaded", { file: MODELS_FILE, reason, models: Object.keys(modelRegistry.models).length });
+    return true;
+  } catch (error) {
+    logger.error("models file reload failed, keeping the previous models", { file: MODELS_FILE, reason, error: (error as Error).message });
+    return false;
+  }
+}
+
+function resolveModel(name: string): Model | undefined {
+  if (Object.hasOwn(modelRegistry.models, name)) return name;
+  return modelRegistry.aliases.get(name);
+}
+
+const ModelNameSchema = z.string().transform((name, ctx) => {
+  const model = resolveModel(name);
+  if (model === undefined) {
+    ctx.addIssue({ code: "custom", message: `Unknown model ${name}` });
+    return z.NEVER;
+  }
+  return model;
+});
+
+// The legacy completions API's logprobs: parallel arrays per token.
+interface CompletionLogprobs {
+  tokens: string[];
+  token_logprobs: number[];
+  top_logprobs: Record<string, number>[] | null;
 }
 
 interface Choice {
   text: string;
   index: number;
-  logprobs?: Logprobs;
+  logprobs?: CompletionLogprobs | null;
   finish_reason: string;
 }
 
 const MAX_MESSAGE_LENGTH = 4000;
-const SLIDING_WINDOW_MESSAGES = 25;
-// Hard cap on the raw request body. The sliding window keeps 25 messages of at
-// most MAX_MESSAGE_LENGTH chars each, so 256KB leaves generous JSON headroom
-// while preventing an unbounded body from buffering in memory.
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const MAX_IMAGE_BYTES = 1024 * 1024;
+const MAX_IMAGES_PER_REQUEST = 4;
+// Hard cap on the raw request body. 256KB fits a long transcript of messages
+// of at most MAX_MESSAGE_LENGTH chars each, while preventing an unbounded body
+// from buffering in memory.
 const MAX_REQUEST_BODY_BYTES = 256 * 1024;
+// Routes that take images also get room for the largest ones allowed once
+// base64-encoded, and document uploads for up to 3 UTF-8 bytes per character.
+const MAX_IMAGE_REQUEST_BODY_BYTES = MAX_REQUEST_BODY_BYTES + MAX_IMAGES_PER_REQUEST * Math.ceil(MAX_IMAGE_BYTES / 3) * 4;
+const MAX_DOCUMENT_REQUEST_BODY_BYTES = MAX_REQUEST_BODY_BYTES + MAX_DOCUMENT_CHARS * 3;
+
+
+function base64Bytes(data: string): number {
+  return Math.floor(data.length * 3 / 4) - (data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0);
+}
+
+const ImageDataUrlSchema = z.string().superRefine((url, ctx) => {
+  const parsed = parseDataUrl(url);
+  if (!parsed) {
+    ctx.addIssue({ code: "custom", message: "images must be base64 data URLs" });
+  } else if (!IMAGE_TYPES.includes(parsed.type)) {
+    ctx.addIssue({ code: "custom", message: `unsupported image type ${parsed.type}, expected one of ${IMAGE_TYPES.join(", ")}` });
+  } else if (base64Bytes(parsed.data) > MAX_IMAGE_BYTES) {
+    ctx.addIssue({ code: "custom", message: `images are limited to ${MAX_IMAGE_BYTES / 1024 / 1024} MB` });
+  }
+});
+
+// Inline as a data URL, or a reference to an image uploaded to /files.
+const ImagePartSchema = z.union([
+  z.object({ url: ImageDataUrlSchema }),
+  z.object({ fileId: z.uuid() }),
+]);
+type ImagePart = z.infer<typeof ImagePartSchema>;
 
 const MessageSchema = z.object({
   text: z.string(),
   party: z.enum(["bot", "human"]),
+  images: z.array(ImagePartSchema).optional(),
 }).refine((m) => m.party !== "human" || m.text.length <= MAX_MESSAGE_LENGTH, {
   error: `human messages are limited to ${MAX_MESSAGE_LENGTH} characters`,
+}).refine((m) => m.party === "human" || !m.images?.length, {
+  error: "only human messages can contain images",
 });
 type Message = z.infer<typeof MessageSchema>;
 
@@ -126,12 +501,359 @@ const MessagesSchema = z.preprocess(
     Array.isArray(messages)
       ? messages.filter((m) => (m?.party === "human" || m?.party === "bot") && typeof m?.text === "string")
       : messages,
-  z.array(MessageSchema)
+  z.array(MessageSchema).refine((messages) => messages.reduce((n, m) => n + (m.images?.length ?? 0), 0) <= MAX_IMAGES_PER_REQUEST, {
+    error: `at most ${MAX_IMAGES_PER_REQUEST} images per request`,
+  })
 );
 
+// Upstream stop lists are capped at 4 entries by OpenAI, and one slot may be
+// taken by the provider's own stop sequence.
+const MAX_STOP_SEQUENCES = 3;
+const MAX_TOP_LOGPROBS = 20;
+const SamplingParamsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.int().positive().optional(),
+  top_p: z.number().gt(0).max(1).optional(),
+  seed: z.int().optional(),
+  stop: z.union([z.string().min(1), z.array(z.string().min(1)).max(MAX_STOP_SEQUENCES)]).optional(),
+  reasoning_effort: z.enum(["minimal", "low", "medium", "high"]).optional(),
+  logprobs: z.boolean().optional(),
+  top_logprobs: z.int().min(0).max(MAX_TOP_LOGPROBS).optional(),
+});
+
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+
+const ResponseFormatSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text") }),
+  z.object({ type: z.literal("json_object") }),
+  z.object({
+    type: z.literal("json_schema"),
+    json_schema: z.object({
+      name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "schema names may only contain letters, digits, '_' and '-'"),
+      description: z.string().optional(),
+      schema: z.record(z.string(), z.unknown()).superRefine((schema, ctx) => {
+        try {
+          z.fromJSONSchema(schema);
+        } catch (error) {
+          ctx.addIssue({ code: "custom", message: `Unsupported JSON schema: ${(error as Error).message}` });
+        }
+      }),
+      strict: z.boolean().optional(),
+    }),
+  }),
+]);
+
 const BodySchema = z.object({
+  ...SamplingParamsSchema.shape,
+  messages: MessagesSchema,
+  // Optional when the preset names a default model.
+  model: ModelNameSchema.optional(),
+  conversationId: z.uuid().optional(),
+  systemPrompt: z.string().max(MAX_SYSTEM_PROMPT_LENGTH).optional(),
+  preset: z.string().optional(),
+  // Names of server-side tools the model may call, see GET /tools.
+  tools: z.array(z.string()).optional(),
+  response_format: ResponseFormatSchema.optional(),
+  // true caches the reply, false bypasses the cache; by default only
+  // temperature 0 requests are cached.
+  cache: z.boolean().optional(),
+  // Id of one of the caller's document collections to answer from.
+  collection: z.uuid().optional(),
+  // Keep generating through a dropped connection; see GET /streams/:id.
+  resumable: z.boolean().optional(),
+  // regenerate drops the last bot reply and samples a new one; continue
+  // extends it, and only the new text is streamed.
+  mode: z.enum(["regenerate", "continue"]).optional(),
+  // Index of a stored conversation message that `messages` replace. The old
+  // messages from there on are kept as an alternative branch.
+  branchFrom: z.int().nonnegative().optional(),
+});
+
+const MAX_COMPARE_MODELS = 4;
+
+const CompareBodySchema = z.object({
+  ...SamplingParamsSchema.shape,
   messages: MessagesSchema,
-  model: z.enum(MODELS),
+  models: z.array(ModelNameSchema).min(1).max(MAX_COMPARE_MODELS).refine((models) => new Set(models).size === models.length, {
+    error: "models must be distinct",
+  }),
+  systemPrompt: z.string().max(MAX_SYSTEM_PROMPT_LENGTH).optional(),
+});
+
+const PresetSchema = z.object({
+  ...SamplingParamsSchema.shape,
+  name: z.string(),
+  description: z.string().optional(),
+  systemPrompt: z.string(),
+  model: z.string().optional(),
+});
+type Preset = z.infer<typeof PresetSchema>;
+
+const PresetsFileSchema = z.object({
+  presets: z.record(z.string(), PresetSchema),
+});
+
+// Presets are optional; a missing file just means there are none.
+function loadPresets(file: string): Record<string, Preset> {
+  try {
+    return PresetsFileSchema.parse(JSON.parse(fs.readFileSync(file, "utf8"))).presets;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+let presets: Record<string, Preset> = (() => {
+  try {
+    return loadPresets(PRESETS_FILE);
+  } catch (error) {
+    logger.error("invalid presets file", { file: PRESETS_FILE, error: (error as Error).message });
+    process.exit(1);
+  }
+})();
+
+function reloadPresets(reason: string): boolean {
+  try {
+    presets = loadPresets(PRESETS_FILE);
+    logger.info("presets file reloaded", { file: PRESETS_FILE, reason, presets: Object.keys(presets).length });
+    return true;
+  } catch (error) {
+    logger.error("presets file reload failed, keeping the previous presets", { file: PRESETS_FILE, reason, error: (error as Error).message });
+    return false;
+  }
+}
+
+function getPreset(id: string): Preset {
+  const preset = presets[id];
+  if (!preset) {
+    throw new HttpError(400, `Unknown preset ${id}`);
+  }
+  return preset;
+}
+
+const PiiKindSchema = z.enum(["email", "phone", "api_key"]);
+type PiiKind = z.infer<typeof PiiKindSchema>;
+
+const ModerationStageSchema = z.enum(["input", "output"]);
+type ModerationStage = z.infer<typeof ModerationStageSchema>;
+
+const BlocklistRuleSchema = z.object({
+  pattern: z.string(),
+  flags: z.string().regex(/^[imsu]*$/, "flags may only contain i, m, s and u").default("i"),
+  // Logged and shown to the client when the rule matches.
+  reason: z.string(),
+  applyTo: z.array(ModerationStageSchema).default(["input", "output"]),
+  // The longest text the pattern can match. Streamed replies are only checked
+  // this far back from each new chunk.
+  maxLength: z.number().int().positive().default(200),
+}).superRefine((rule, ctx) => {
+  try {
+    new RegExp(rule.pattern, rule.flags);
+  } catch (error) {
+    ctx.addIssue({ code: "custom", path: ["pattern"], message: (error as Error).message });
+  }
+});
+
+const ModerationFileSchema = z.object({
+  blocklist: z.array(BlocklistRuleSchema).default([]),
+  // Replaced with placeholders in human messages before they go upstream.
+  maskPii: z.array(PiiKindSchema).default([]),
+  // A chat model asked to classify the human messages before they're answered.
+  moderationModel: z.string().optional(),
+});
+type ModerationConfig = z.infer<typeof ModerationFileSchema>;
+
+// Moderation is optional too; without a file nothing is checked.
+function loadModeration(file: string): ModerationPipeline {
+  let config: ModerationConfig;
+  try {
+    config = ModerationFileSchema.parse(JSON.parse(fs.readFileSync(file, "utf8")));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    config = ModerationFileSchema.parse({});
+  }
+  if (config.moderationModel !== undefined) {
+    const model = resolveModel(config.moderationModel);
+    if (model === undefined || modelRegistry.models[model]!.apiType !== "chat") {
+      throw new Error(`moderationModel ${config.moderationModel} is not a chat model in ${MODELS_FILE}`);
+    }
+    config.moderationModel = model;
+  }
+  return moderationPipeline(config);
+}
+
+let moderation: ModerationPipeline = (() => {
+  try {
+    return loadModeration(MODERATION_FILE);
+  } catch (error) {
+    logger.error("invalid moderation file", { file: MODERATION_FILE, error: (error as Error).message });
+    process.exit(1);
+  }
+})();
+
+function reloadModeration(reason: string): boolean {
+  try {
+    moderation = loadModeration(MODERATION_FILE);
+    logger.info("moderation file reloaded", { file: MODERATION_FILE, reason });
+    return true;
+  } catch (error) {
+    logger.error("moderation file reload failed, keeping the previous rules", { file: MODERATION_FILE, reason, error: (error as Error).message });
+    return false;
+  }
+}
+
+function mergeSamplingParams(...sources: SamplingParams[]): SamplingParams {
+  const merged: Record<string, unknown> = {};
+  for (const source of sources) {
+    for (const name of SamplingParamNameSchema.options) {
+      if (source[name] !== undefined) merged[name] = source[name];
+    }
+  }
+  return merged as SamplingParams;
+}
+
+const ConversationIdSchema = z.uuid();
+
+const CreateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  model: ModelNameSchema.optional(),
+  messages: MessagesSchema.optional(),
+});
+
+const UpdateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  // Switches to another version of the conversation from message `index` on.
+  branch: z.object({
+    index: z.int().nonnegative(),
+    alternative: z.int().nonnegative(),
+  }).optional(),
+}).refine((body) => body.title !== undefined || body.branch !== undefined, {
+  error: "title or branch is required",
+});
+
+const CollectionIdSchema = z.uuid();
+
+const CreateCollectionSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+});
+
+// PDFs and other formats are converted to text by the client.
+const DocumentTypeSchema = z.enum(["text", "markdown"]);
+type DocumentType = z.infer<typeof DocumentTypeSchema>;
+
+const AddDocumentSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  type: DocumentTypeSchema.default("text"),
+  text: z.string().trim().min(1).max(MAX_DOCUMENT_CHARS),
+});
+
+const UploadFileSchema = z.object({
+  data: ImageDataUrlSchema,
+});
+
+const OpenAIContentPartSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal("image_url"),
+    image_url: z.object({
+      url: ImageDataUrlSchema,
+      detail: z.enum(["auto", "low", "high"]).optional(),
+    }),
+  }),
+]);
+
+const ToolNameSchema = z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "tool names may only contain letters, digits, '_' and '-'");
+
+const OpenAIToolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string(),
+    arguments: z.string(),
+  }),
+});
+
+const OpenAIMessageSchema = z.object({
+  role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+  // Assistant messages that only call tools have null content.
+  content: z.union([z.string(), z.array(OpenAIContentPartSchema)]).nullish().transform((content) => content ?? ""),
+  tool_calls: z.array(OpenAIToolCallSchema).optional(),
+  tool_call_id: z.string().optional(),
+}).refine((m) => m.role !== "tool" || m.tool_call_id !== undefined, {
+  error: "tool messages need a tool_call_id",
+});
+
+const OpenAIToolSchema = z.object({
+  type: z.literal("function"),
+  function: z.object({
+    name: ToolNameSchema,
+    description: z.string().optional(),
+    parameters: z.record(z.string(), z.unknown()).optional(),
+    strict: z.boolean().optional(),
+  }),
+});
+
+const OpenAIToolChoiceSchema = z.union([
+  z.enum(["none", "auto", "required"]),
+  z.object({
+    type: z.literal("function"),
+    function: z.object({ name: ToolNameSchema }),
+  }),
+]);
+
+function openAIImageCount(messages: z.infer<typeof OpenAIMessageSchema>[]): number {
+  return messages.reduce((n, m) => n + (typeof m.content === "string" ? 0 : m.content.filter((part) => part.type === "image_url").length), 0);
+}
+
+const OpenAIBodySchema = z.object({
+  ...SamplingParamsSchema.shape,
+  max_completion_tokens: z.int().positive().optional(),
+  model: ModelNameSchema,
+  messages: z.array(OpenAIMessageSchema).min(1).refine((messages) => openAIImageCount(messages) <= MAX_IMAGES_PER_REQUEST, {
+    error: `at most ${MAX_IMAGES_PER_REQUEST} images per request`,
+  }),
+  stream: z.boolean().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).optional(),
+  tools: z.array(OpenAIToolSchema).optional(),
+  tool_choice: OpenAIToolChoiceSchema.optional(),
+  response_format: ResponseFormatSchema.optional(),
+  cache: z.boolean().optional(),
+});
+
+const UserIdSchema = z.string().regex(/^[a-z0-9_-]{1,64}$/i, "user ids may only contain letters, digits, '_' and '-'");
+
+const QuotaSchema = z.object({
+  daily: z.number().nonnegative().optional(),
+  monthly: z.number().nonnegative().optional(),
+});
+
+const CreateUserSchema = z.object({
+  id: UserIdSchema,
+  name: z.string().trim().min(1).max(200),
+  admin: z.boolean().optional(),
+  models: z.union([z.literal("*"), z.array(ModelNameSchema)]),
+  quota: QuotaSchema.optional(),
+});
+
+const UpdateUserSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  admin: z.boolean().optional(),
+  models: z.union([z.literal("*"), z.array(ModelNameSchema)]).optional(),
+  quota: QuotaSchema.optional(),
+});
+
+const CreateApiKeySchema = z.object({
+  label: z.string().trim().max(200).optional(),
+  quota: QuotaSchema.optional(),
+});
+
+const UsageQuerySchema = z.object({
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+  userId: UserIdSchema.optional(),
 });
 
 const CookiesSchema = z.object({
@@ -146,23 +868,29 @@ interface Data {
   model: string;
 }
 
-interface ChatData {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices?: ChatChoice[];
+interface ChatCompletionOptions {
+  tools?: ToolParams;
+  responseFormat?: JsonResponseFormat;
+  // Reasoning deltas, kept apart from the answer.
+  onReasoning?: (content: string) => void;
+  // Called periodically while a non-streaming model is still working.
+  onProgress?: (elapsedMs: number) => void;
+  // Retrieved document chunks the model should answer from.
+  sources?: Source[];
+  // The messages end with a partial reply that the model should extend.
+  continueReply?: boolean;
 }
 
-interface ChatChoice {
-  delta: ChatDelta;
-  index: number;
-  finish_reason: string;
+interface CompletionResult {
+  completion: string;
+  finishReason: string | null;
+  usage: Usage;
+  toolCalls?: ToolCall[];
+  reasoning?: string;
+  logprobs?: LogProbContent[];
 }
 
-interface ChatDelta {
-  content: string;
-}
+type ChunkHandler = (content: string, logprobs?: LogProbContent[]) => void;
 
 function chunkToDataArray<T = Data>(chunkString: string): T[] {
   const dataLines = chunkString.split("\n\n");
@@ -181,8 +909,9 @@ function chunkToDataArray<T = Data>(chunkString: string): T[] {
   return dataArray;
 }
 
-function generatePrompt(messages: Message[]) {
-  let prompt = `Hello, I am a chatbot powered by GPT-3. You can ask me anything and I will try my best to answer your questions.
+const DEFAULT_SYSTEM_PROMPT = "You are a helpful AI language model assistant.";
+
+const DEFAULT_INSTRUCT_PREAMBLE = `Hello, I am a chatbot powered by GPT-3. You can ask me anything and I will try my best to answer your questions.
 
 To format my responses with code blocks, you can use the following markdown syntax:
 
@@ -198,88 +927,1481 @@ Feel free to ask me anything and I will do my best to help.
 
 `;
 
-  for (let i = 0; i < messages.length; i++) {
-    const message = messages[i];
-    const { party, text } = message;
-    if (party === "human") {
-      prompt += `Human: ${text.trim()}\n\n`;
-    } else if (party === "bot") {
-      prompt += `Bot: ${text.trim()}\n\n`;
-    }
+function promptPreamble(systemPrompt?: string) {
+  return systemPrompt ? `${systemPrompt.trim()}\n\n` : DEFAULT_INSTRUCT_PREAMBLE;
+}
+
+function promptLine({ party, text }: Message) {
+  return party === "human" ? `Human: ${text.trim()}\n\n` : `Bot: ${text.trim()}\n\n`;
+}
+
+// `continuation` is a partial bot reply for the model to carry on from.
+function generatePrompt(messages: Message[], systemPrompt?: string, continuation = "") {
+  let prompt = promptPreamble(systemPrompt);
+
+  for (const message of messages) {
+    prompt += promptLine(message);
   }
   // prompt for the bot
-  prompt += "Bot: ";
+  prompt += `Bot: ${continuation.trimStart()}`;
   return prompt;
 }
 
 
-class DoubleNewlineReader {
-  reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>;
-  buffer: string;
-  decoder: InstanceType<typeof TextDecoder>;
+// Only the GPT-3 BPE ships with the server, so every count is an estimate,
+// including for current GPT models, whose vocabularies differ too. Other
+// families are scaled up by how many more tokens their vocabularies typically
+// produce, so estimates err towards trimming a little early rather than
+// overflowing.
+const TOKENIZER_SCALE: Record<TokenizerFamily, number> = {
+  gpt: 1,
+  llama: 1,
+  mistral: 1.15,
+  claude: 1.1,
+};
 
-  constructor(reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>) {
-    this.reader = reader;
-    this.buffer = '';
-    this.decoder = new TextDecoder();
-  }
+// Most of a prompt is history that was already counted on earlier turns and
+// on the other routes of the same request, so counts are kept by text hash.
+const TOKEN_COUNT_CACHE_ENTRIES = 10_000;
+const tokenCounts = new Map<string, number>();
 
-  async readUntilDoubleNewline() {
-    while (true) {
-      const pos = this.buffer.indexOf('\n\n');
-      if (pos !== -1) {
-        const upToDoubleNewline = this.buffer.substring(0, pos + 2);
-        this.buffer = this.buffer.substring(pos + 2);
-        return { done: false, value: upToDoubleNewline };
-      }
-      const { done, value } = await this.reader.read();
-      if (done) {
-        if (this.buffer.length) {
-          const remaining = this.buffer;
-          this.buffer = '';
-          return { done: true, value: remaining };  // Return what's left if the stream is done
-        }
-        break;
-      }
-      const dataString = this.decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
-      this.buffer += dataString;  // Assuming value is a string; adjust if not
-    }
-    return { done: true, value: this.buffer };
+function gpt3TokenCount(text: string): number {
+  const key = crypto.createHash("sha256").update(text).digest("base64");
+  let count = tokenCounts.get(key);
+  if (count === undefined) {
+    const encoded: { bpe: number[]; text: string[] } = tokenizer.encode(text);
+    count = encoded.bpe.length;
   }
+  tokenCounts.delete(key);
+  tokenCounts.set(key, count);
+  if (tokenCounts.size > TOKEN_COUNT_CACHE_ENTRIES) {
+    tokenCounts.delete(tokenCounts.keys().next().value!);
+  }
+  return count;
 }
 
-class HttpError extends Error {
-  status: number;
-  constructor(status: number, message: string) {
-    super(message);
-    this.status = status;
-  }
+function countTokens(text: string, family: TokenizerFamily): number {
+  return Math.ceil(gpt3TokenCount(text) * TOKENIZER_SCALE[family]);
 }
 
-async function upstreamHttpError(response: Response): Promise<HttpError> {
-  const text = await response.text();
-  let detail = text;
-  try {
-    detail = JSON.parse(text).error?.message ?? text;
-  } catch {}
-  return new HttpError(502, `Upstream error (HTTP ${response.status}): ${detail}`);
+// Fallback for providers that don't report usage.
+function estimateUsage(promptText: string, completion: string, family: TokenizerFamily): Usage {
+  const prompt_tokens = countTokens(promptText, family);
+  const completion_tokens = countTokens(completion, family);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
 }
 
-function timeSafeCompare(a: string, b: string) {
-  // Brad Hill's Double HMAC pattern
-  const key = crypto.randomBytes(32);
-  const ah = crypto.createHmac('sha256', key).update(a).digest();
-  const bh = crypto.createHmac('sha256', key).update(b).digest();
-  return crypto.timingSafeEqual(ah, bh) && a === b;
+function addUsage(a: Usage, b: Usage): Usage {
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+  };
 }
 
-const UPSTREAM_MAX_ATTEMPTS = 3;
-const UPSTREAM_RETRY_BASE_DELAY_MS = 300;
+// Tokens the prompt may use: the context window minus room for the reply.
+function promptTokenBudget(modelConfig: ModelConfig, params: SamplingParams): number {
+  const replyTokens = Math.min(params.max_tokens ?? DEFAULT_REPLY_TOKENS, modelConfig.maxOutputTokens ?? Infinity);
+  return modelConfig.contextWindow - replyTokens - TOKENS_SAFETY_MARGIN;
+}
 
-function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (signal.aborted) return reject(signal.reason ?? new Error("Aborted"));
-    const timer = setTimeout(() => {
+// Drops the oldest turns before `latest` until the rest fits in `budget`,
+// keeping system messages, then any reply left dangling at the start.
+function dropOldestTurns<T>(items: T[], costs: number[], latest: number, budget: number, isSystem: (item: T) => boolean, isReply: (item: T) => boolean): T[] {
+  let total = costs.reduce((sum, cost) => sum + cost, 0);
+  const dropped = new Set<number>();
+  for (let i = 0; i < latest; i++) {
+    const item = items[i]!;
+    if (isSystem(item)) continue;
+    if (total <= budget && !(dropped.size > 0 && isReply(item))) break;
+    dropped.add(i);
+    total -= costs[i]!;
+  }
+  if (total > budget) {
+    throw new HttpError(400, "Validation error: the prompt doesn't fit in the model's context window");
+  }
+  if (dropped.size > 0) {
+    logger.info("context trimmed", { dropped: dropped.size });
+  }
+  return items.filter((_, i) => !dropped.has(i));
+}
+
+function fitChatMessages(chatMessages: ChatMessage[], modelConfig: ModelConfig, params: SamplingParams): ChatMessage[] {
+  const costs = chatMessages.map((m) =>
+    countTokens(chatContentText(m.content) + (m.tool_calls ? JSON.stringify(m.tool_calls) : ""), modelConfig.tokenizer)
+      + chatContentImages(m.content) * IMAGE_TOKEN_ESTIMATE + MESSAGE_TOKEN_OVERHEAD
+  );
+  const latest = chatMessages.findLastIndex((m) => m.role === "user");
+  return dropOldestTurns(chatMessages, costs, latest, promptTokenBudget(modelConfig, params), (m) => m.role === "system", (m) => m.role === "assistant" || m.role === "tool");
+}
+
+function fitInstructMessages(messages: Message[], systemPrompt: string | undefined, modelConfig: ModelConfig, params: SamplingParams): Message[] {
+  const { tokenizer } = modelConfig;
+  const costs = messages.map((m) => countTokens(promptLine(m), tokenizer));
+  const latest = messages.findLastIndex((m) => m.party === "human");
+  const budget = promptTokenBudget(modelConfig, params) - countTokens(promptPreamble(systemPrompt), tokenizer);
+  return dropOldestTurns(messages, costs, latest, budget, () => false, (m) => m.party === "bot");
+}
+
+// A caller-supplied system prompt is always sent; otherwise only 'custom'
+// models get ours and the rest keep their provider's default.
+function toChatMessages(messages: Message[], systemMessage: ModelConfig["systemMessage"], systemPrompt?: string): ChatMessage[] {
+  const system = systemPrompt ?? (systemMessage === 'custom' ? DEFAULT_SYSTEM_PROMPT : undefined);
+  return [
+    ...(system ? [{
+      role: "system" as const,
+      content: system,
+    }] : []),
+    ...messages.map((m) => ({
+      role: m.party === "human" ? "user" as const : "assistant" as const,
+      content: m.images?.length
+        ? [{ type: "text" as const, text: m.text }, ...m.images.map(imageContentPart)]
+        : m.text,
+    })),
+  ];
+}
+
+// File references must be resolved with resolveImages first.
+function imageContentPart(image: ImagePart): ChatContentPart {
+  if (!("url" in image)) {
+    throw new Error(`Unresolved image file ${image.fileId}`);
+  }
+  return { type: "image_url", image_url: { url: image.url } };
+}
+
+
+function chatContentImages(content: ChatMessage["content"]): number {
+  return typeof content === "string" ? 0 : content.filter((part) => part.type === "image_url").length;
+}
+
+function foldSystemMessages(chatMessages: ChatMessage[]): ChatMessage[] {
+  const system = chatMessages.filter((m) => m.role === "system").map((m) => chatContentText(m.content)).join("\n\n");
+  const rest = chatMessages.filter((m) => m.role !== "system");
+  if (!system) return rest;
+  const firstUser = rest.findIndex((m) => m.role === "user");
+  if (firstUser === -1) return [{ role: "user", content: system }, ...rest];
+  return rest.map((m, i): ChatMessage => {
+    if (i !== firstUser) return m;
+    return typeof m.content === "string"
+      ? { role: "user", content: `${system}\n\n${m.content}` }
+      : { role: "user", content: [{ type: "text", text: `${system}\n\n` }, ...m.content] };
+  });
+}
+
+
+
+function setRetryAfter(res: http.ServerResponse, error: unknown) {
+  if (error instanceof HttpError && error.retryAfter !== undefined) {
+    res.setHeader("Retry-After", Math.max(1, Math.ceil(error.retryAfter)));
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+function errorStatus(error: unknown): number {
+  return error instanceof HttpError ? error.status :
+    error instanceof z.ZodError || error instanceof SyntaxError ? 400 :
+    502;
+}
+
+
+async function upstreamHttpError(response: Response, adapter: ProviderAdapter): Promise<HttpError> {
+  const text = await response.text();
+  let detail = text;
+  try {
+    detail = adapter.errorDetail(text) ?? text;
+  } catch {}
+  if (response.status === 429) {
+    return new UpstreamError(429, 429, `Upstream rate limited (HTTP 429): ${detail}`, parseRetryAfter(response.headers.get("retry-after")) ?? 1);
+  }
+  return new UpstreamError(response.status, 502, `Upstream error (HTTP ${response.status}): ${detail}`);
+}
+
+// Regenerated replies and edited messages start a new branch. The versions
+// it replaced hang off its first message as `alternatives`, each the rest of
+// the conversation from that point on.
+type ConversationMessage = Message & { alternatives?: ConversationMessage[][] };
+
+interface Conversation {
+  id: string;
+  owner: string;
+  title: string;
+  model: Model | null;
+  createdAt: string;
+  updatedAt: string;
+  // The selected branch.
+  messages: ConversationMessage[];
+}
+
+function activeMessages(messages: ConversationMessage[]): Message[] {
+  return messages.map(({ alternatives: _alternatives, ...message }) => message);
+}
+
+type ConversationSummary = Omit<Conversation, "messages">;
+
+const CONVERSATION_TITLE_LENGTH = 60;
+
+function defaultConversationTitle(messages: Message[]): string {
+  const firstHumanMessage = messages.find((m) => m.party === "human")?.text.trim();
+  if (!firstHumanMessage) return "New conversation";
+  return firstHumanMessage.length > CONVERSATION_TITLE_LENGTH
+    ? `${firstHumanMessage.slice(0, CONVERSATION_TITLE_LENGTH - 1)}…`
+    : firstHumanMessage;
+}
+
+// Reads every `.json` file in a directory. A file that can't be read or
+// parsed is logged and skipped, so one bad file doesn't break a listing.
+async function readJsonFiles<T>(dir: string): Promise<{ file: string; data: T }[]> {
+  let files: string[];
+  try {
+    files = await fsp.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const results: { file: string; data: T }[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      results.push({ file, data: JSON.parse(await fsp.readFile(path.join(dir, file), "utf8")) });
+    } catch (error) {
+      logger.warn("skipping unreadable file", { file: path.join(dir, file), error: (error as Error).message });
+    }
+  }
+  return results;
+}
+
+// One JSON file per item, in a directory per owner so listing only reads the
+// caller's own. Writes go through a temp file and a rename so a crash
+// mid-write never leaves a truncated file behind, and updates to the same item
+// are serialized with withLock so concurrent changes don't race.
+class OwnerJsonStore<T extends { id: string; owner: string }> {
+  dir: string;
+  idSchema: z.ZodType<string>;
+  // What an item is called in errors.
+  noun: string;
+  locks: Map<string, Promise<unknown>>;
+
+  constructor(dir: string, idSchema: z.ZodType<string>, noun: string) {
+    this.dir = dir;
+    this.idSchema = idSchema;
+    this.noun = noun;
+    this.locks = new Map();
+  }
+
+  ownerDir(owner: string) {
+    return path.join(this.dir, UserIdSchema.parse(owner));
+  }
+
+  filePath(owner: string, id: string) {
+    return path.join(this.ownerDir(owner), `${this.idSchema.parse(id)}.json`);
+  }
+
+  async withLock<R>(id: string, fn: () => Promise<R>): Promise<R> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(fn);
+    this.locks.set(id, next);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(id) === next) this.locks.delete(id);
+    }
+  }
+
+  async write(item: T) {
+    const file = this.filePath(item.owner, item.id);
+    await fsp.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(item));
+    await fsp.rename(tmp, file);
+  }
+
+  async get(id: string, owner: string): Promise<T> {
+    try {
+      return JSON.parse(await fsp.readFile(this.filePath(owner, id), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new HttpError(404, `${this.noun} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async readAll(owner: string): Promise<T[]> {
+    return (await readJsonFiles<T>(this.ownerDir(owner))).map(({ data }) => data);
+  }
+
+  delete(id: string, owner: string) {
+    return this.withLock(id, async () => {
+      await this.get(id, owner);
+      await fsp.rm(this.filePath(owner, id), { force: true });
+    });
+  }
+
+  // For deleted users, so a new user who gets the same id starts empty.
+  async deleteOwner(owner: string) {
+    await fsp.rm(this.ownerDir(owner), { recursive: true, force: true });
+  }
+}
+
+class ConversationStore extends OwnerJsonStore<Conversation> {
+  constructor(dir: string) {
+    super(dir, ConversationIdSchema, "Conversation");
+  }
+
+  async list(owner: string): Promise<ConversationSummary[]> {
+    return (await this.readAll(owner))
+      .map(({ messages: _messages, ...summary }) => summary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async create(owner: string, title: string | undefined, model: Model | null, messages: Message[]): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: crypto.randomUUID(),
+      owner,
+      title: title ?? defaultConversationTitle(messages),
+      model,
+      createdAt: now,
+      updatedAt: now,
+      messages,
+    };
+    await this.write(conversation);
+    return conversation;
+  }
+
+  update(id: string, owner: string, fn: (conversation: Conversation) => void): Promise<Conversation> {
+    return this.withLock(id, async () => {
+      const conversation = await this.get(id, owner);
+      fn(conversation);
+      conversation.updatedAt = new Date().toISOString();
+      await this.write(conversation);
+      return conversation;
+    });
+  }
+
+  rename(id: string, owner: string, title: string) {
+    return this.update(id, owner, (conversation) => {
+      conversation.title = title;
+    });
+  }
+
+  // `continuation` is added to the last message, for continued replies.
+  append(id: string, owner: string, messages: Message[], model: Model, continuation = "") {
+    return this.update(id, owner, (conversation) => {
+      if (conversation.messages.length === 0) {
+        conversation.title = defaultConversationTitle(messages);
+      }
+      conversation.messages.push(...messages);
+      if (continuation) conversation.messages.at(-1)!.text += continuation;
+      conversation.model = model;
+    });
+  }
+
+  // Replaces the messages from `index` on, keeping the old ones as an
+  // alternative branch.
+  branch(id: string, owner: string, index: number, messages: Message[], model: Model) {
+    return this.update(id, owner, (conversation) => {
+      if (index >= conversation.messages.length) {
+        throw new HttpError(409, "Conversation changed while the reply was generated");
+      }
+      const [{ alternatives = [], ...head }, ...rest] = conversation.messages.splice(index);
+      conversation.messages.push({ ...messages[0]!, alternatives: [...alternatives, [head, ...rest]] }, ...messages.slice(1));
+      conversation.model = model;
+    });
+  }
+
+  selectBranch(id: string, owner: string, index: number, alternative: number) {
+    return this.update(id, owner, (conversation) => {
+      const chosen = conversation.messages[index]?.alternatives?.[alternative];
+      if (!chosen) {
+        throw new HttpError(404, "Branch not found");
+      }
+      const [{ alternatives = [], ...head }, ...rest] = conversation.messages.splice(index);
+      const others = alternatives.filter((_, i) => i !== alternative);
+      conversation.messages.push({ ...chosen[0]!, alternatives: [...others, [head, ...rest]] }, ...chosen.slice(1));
+    });
+  }
+}
+
+const conversationStore = new ConversationStore(CONVERSATIONS_DIR);
+
+interface StoredFile {
+  id: string;
+  // null for anonymous uploads from before uploading needed an account. Anyone
+  // holding the id can use those, but nobody can delete them.
+  owner: string | null;
+  type: string;
+  bytes: number;
+  createdAt: string;
+  data: string;
+}
+
+// Uploaded images, one JSON file each with the base64 data inline, so messages
+// can reference them by id instead of resending them on every request.
+class FileStore {
+  dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  filePath(id: string) {
+    return path.join(this.dir, `${z.uuid().parse(id)}.json`);
+  }
+
+  async create(owner: string, dataUrl: string): Promise<StoredFile> {
+    const { type, data } = parseDataUrl(dataUrl)!;
+    const file: StoredFile = {
+      id: crypto.randomUUID(),
+      owner,
+      type,
+      bytes: base64Bytes(data),
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    await fsp.mkdir(this.dir, { recursive: true });
+    const target = this.filePath(file.id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(file));
+    await fsp.rename(tmp, target);
+    return file;
+  }
+
+  async get(id: string, owner: string | null): Promise<StoredFile> {
+    let file: StoredFile;
+    try {
+      file = JSON.parse(await fsp.readFile(this.filePath(id), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new HttpError(404, `File ${id} not found`);
+      }
+      throw error;
+    }
+    if (file.owner !== null && file.owner !== owner) {
+      throw new HttpError(404, `File ${id} not found`);
+    }
+    return file;
+  }
+
+  async delete(id: string, owner: string) {
+    const file = await this.get(id, owner);
+    if (file.owner !== owner) {
+      throw new HttpError(403, "Only the uploader can delete a file");
+    }
+    await fsp.rm(this.filePath(id), { force: true });
+  }
+
+  // Files aren't kept per owner, so every one is read to find the user's.
+  async deleteOwner(owner: string) {
+    for (const { file, data } of await readJsonFiles<StoredFile>(this.dir)) {
+      if (data.owner === owner) await fsp.rm(path.join(this.dir, file), { force: true });
+    }
+  }
+}
+
+function publicFile({ data: _data, ...file }: StoredFile) {
+  return file;
+}
+
+const fileStore = new FileStore(FILES_DIR);
+
+interface CollectionChunk {
+  id: string;
+  text: string;
+  embedding?: number[];
+}
+
+interface CollectionDocument {
+  id: string;
+  name: string;
+  type: DocumentType;
+  chars: number;
+  createdAt: string;
+  chunks: CollectionChunk[];
+}
+
+interface Collection {
+  id: string;
+  owner: string;
+  name: string;
+  // Set when chunks are embedded; retrieval only uses embeddings made with
+  // the model that's still configured.
+  embeddingModel: string | null;
+  createdAt: string;
+  updatedAt: string;
+  documents: CollectionDocument[];
+}
+
+// Splits on blank lines and before Markdown headings, then packs the pieces
+// into chunks of up to CHUNK_MAX_CHARS. A chunk that follows a full one
+// starts with the end of it, so a passage cut at a boundary can still be
+// found in one piece.
+function chunkDocument(text: string): string[] {
+  const paragraphs = text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n|\n(?=#{1,6}\s)/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(splitLongParagraph);
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > CHUNK_MAX_CHARS) {
+      chunks.push(current);
+      current = current.length > CHUNK_MAX_CHARS / 2 ? current.slice(-CHUNK_OVERLAP_CHARS).replace(/^\S*\s+/, "") : "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= CHUNK_MAX_CHARS) return [paragraph];
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    for (let i = 0; i < sentence.length; i += CHUNK_MAX_CHARS) {
+      const part = sentence.slice(i, i + CHUNK_MAX_CHARS);
+      if (current && current.length + part.length + 1 > CHUNK_MAX_CHARS) {
+        pieces.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+const STOP_WORDS = new Set(["a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is", "it", "of", "on", "or", "that", "the", "to", "was", "were", "will", "with"]);
+
+function searchTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => !STOP_WORDS.has(term));
+}
+
+// Okapi BM25 over a collection's chunks.
+class Bm25Index {
+  docs: { terms: Map<string, number>; length: number }[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+
+  constructor(texts: string[]) {
+    this.documentFrequency = new Map();
+    this.docs = texts.map((text) => {
+      const terms = new Map<string, number>();
+      const words = searchTerms(text);
+      for (const word of words) terms.set(word, (terms.get(word) ?? 0) + 1);
+      for (const term of terms.keys()) this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      return { terms, length: words.length };
+    });
+    this.averageLength = this.docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(this.docs.length, 1);
+  }
+
+  scores(query: string): number[] {
+    const terms = [...new Set(searchTerms(query))];
+    return this.docs.map((doc) => terms.reduce((score, term) => {
+      const frequency = doc.terms.get(term);
+      if (!frequency) return score;
+      const df = this.documentFrequency.get(term)!;
+      const idf = Math.log(1 + (this.docs.length - df + 0.5) / (df + 0.5));
+      const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / (this.averageLength || 1));
+      return score + idf * frequency * (BM25_K1 + 1) / norm;
+    }, 0));
+  }
+}
+
+// Embeddings go through the OpenAI-compatible `/embeddings` route of
+// EMBEDDING_PROVIDER, in batches.
+async function embedTexts(texts: string[], signal: AbortSignal): Promise<number[][]> {
+  const provider = EMBEDDING_PROVIDER !== undefined ? modelRegistry.providers[EMBEDDING_PROVIDER] : undefined;
+  if (!provider || provider.api !== "openai" || EMBEDDING_MODEL === undefined) {
+    throw new HttpError(500, `EMBEDDING_PROVIDER must name an OpenAI-compatible provider in ${MODELS_FILE}, with EMBEDDING_MODEL set`);
+  }
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const response = await fetchUpstreamWithRetry(EMBEDDING_PROVIDER!, `${provider.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: bearerHeaders(provider.tokenSecret !== undefined ? secretValue(provider.tokenSecret) : undefined),
+      body: JSON.stringify({ model: EMBEDDING_MODEL, input: texts.slice(i, i + EMBEDDING_BATCH_SIZE) }),
+      signal,
+    }, signal);
+    if (!response.ok) {
+      throw await upstreamHttpError(response, providerAdapters.openai);
+    }
+    const { data }: { data: { index: number; embedding: number[] }[] } = JSON.parse(await response.text());
+    embeddings.push(...data.sort((a, b) => a.index - b.index).map((item) => item.embedding));
+  }
+  return embeddings;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! ** 2;
+    normB += b[i]! ** 2;
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+}
+
+// Document collections for retrieval, one JSON file each holding the
+// documents' chunks (and embeddings, when configured). BM25 indexes are
+// built on first use and rebuilt whenever the collection changes.
+class CollectionStore extends OwnerJsonStore<Collection> {
+  indexes: Map<string, { updatedAt: string; index: Bm25Index }>;
+
+  constructor(dir: string) {
+    super(dir, CollectionIdSchema, "Collection");
+    this.indexes = new Map();
+  }
+
+  async list(owner: string): Promise<Collection[]> {
+    return (await this.readAll(owner)).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async create(owner: string, name: string): Promise<Collection> {
+    const now = new Date().toISOString();
+    const collection: Collection = {
+      id: crypto.randomUUID(),
+      owner,
+      name,
+      embeddingModel: EMBEDDING_MODEL ?? null,
+      createdAt: now,
+      updatedAt: now,
+      documents: [],
+    };
+    await this.write(collection);
+    return collection;
+  }
+
+  async delete(id: string, owner: string) {
+    await super.delete(id, owner);
+    this.indexes.delete(id);
+  }
+
+  // Chunks and embeds outside the lock, since embedding can take a while.
+  async addDocument(id: string, owner: string, name: string, type: DocumentType, text: string): Promise<CollectionDocument> {
+    const { embeddingModel } = await this.get(id, owner);
+    const texts = chunkDocument(text);
+    const embeddings = embeddingModel !== null && embeddingModel === EMBEDDING_MODEL
+      ? await embedTexts(texts, AbortSignal.timeout(EMBEDDING_TIMEOUT_MS))
+      : undefined;
+    const document: CollectionDocument = {
+      id: crypto.randomUUID(),
+      name,
+      type,
+      chars: text.length,
+      createdAt: new Date().toISOString(),
+      chunks: texts.map((chunk, i) => ({ id: crypto.randomUUID(), text: chunk, ...(embeddings ? { embedding: embeddings[i]! } : {}) })),
+    };
+    return this.withLock(id, async () => {
+      const collection = await this.get(id, owner);
+      collection.documents.push(document);
+      collection.updatedAt = document.createdAt;
+      await this.write(collection);
+      return document;
+    });
+  }
+
+  async deleteDocument(id: string, owner: string, documentId: string) {
+    await this.withLock(id, async () => {
+      const collection = await this.get(id, owner);
+      const documents = collection.documents.filter((document) => document.id !== documentId);
+      if (documents.length === collection.documents.length) {
+        throw new HttpError(404, "Document not found");
+      }
+      collection.documents = documents;
+      collection.updatedAt = new Date().toISOString();
+      await this.write(collection);
+    });
+  }
+
+  index(collection: Collection): Bm25Index {
+    const cached = this.indexes.get(collection.id);
+    if (cached?.updatedAt === collection.updatedAt) return cached.index;
+    const index = new Bm25Index(collection.documents.flatMap((document) => document.chunks.map((chunk) => chunk.text)));
+    this.indexes.set(collection.id, { updatedAt: collection.updatedAt, index });
+    return index;
+  }
+}
+
+const collectionStore = new CollectionStore(COLLECTIONS_DIR);
+
+function publicDocument({ chunks, ...document }: CollectionDocument) {
+  return { ...document, chunks: chunks.length };
+}
+
+function publicCollection({ documents, ...collection }: Collection) {
+  return { ...collection, documents: documents.map(publicDocument) };
+}
+
+interface Source {
+  // What the model cites, e.g. [1].
+  index: number;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  score: number;
+  text: string;
+}
+
+// BM25 alone, or BM25 and embedding similarity merged by reciprocal rank
+// fusion when the collection has usable embeddings.
+async function retrieveSources(collection: Collection, query: string, signal: AbortSignal): Promise<Source[]> {
+  const entries = collection.documents.flatMap((document) => document.chunks.map((chunk) => ({ document, chunk })));
+  const bm25 = collectionStore.index(collection).scores(query);
+  let scores = bm25;
+  if (collection.embeddingModel !== null && collection.embeddingModel === EMBEDDING_MODEL && entries.some(({ chunk }) => chunk.embedding)) {
+    const [queryEmbedding] = await embedTexts([query], signal);
+    const similarity = entries.map(({ chunk }) => chunk.embedding ? cosineSimilarity(queryEmbedding!, chunk.embedding) : -Infinity);
+    const ranks = (values: number[]) => {
+      const order = values.map((value, i) => ({ value, i })).filter(({ value }) => value > 0).sort((a, b) => b.value - a.value);
+      const rank = new Map(order.map(({ i }, position) => [i, position]));
+      return (i: number) => rank.has(i) ? 1 / (RRF_K + rank.get(i)!) : 0;
+    };
+    const bm25Rank = ranks(bm25);
+    const similarityRank = ranks(similarity);
+    scores = entries.map((_, i) => bm25Rank(i) + similarityRank(i));
+  }
+  return scores
+    .map((score, i) => ({ score, i }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RETRIEVAL_TOP_K)
+    .map(({ score, i }, position) => ({
+      index: position + 1,
+      documentId: entries[i]!.document.id,
+      documentName: entries[i]!.document.name,
+      chunkId: entries[i]!.chunk.id,
+      score: Math.round(score * 1000) / 1000,
+      text: entries[i]!.chunk.text,
+    }));
+}
+
+// Placed right before the latest user message so the sources sit next to
+// the question they were retrieved for.
+function withSources(chatMessages: ChatMessage[], sources: Source[]): ChatMessage[] {
+  const context = sources.map((source) => `[${source.index}] ${source.documentName}\n${source.text}`).join("\n\n");
+  const instruction: ChatMessage = {
+    role: "system",
+    content: `Answer using the sources below when they're relevant, and cite them by number, like [1]. If they don't contain the answer, say so before answering from your own knowledge.\n\n${context}`,
+  };
+  const lastUser = chatMessages.findLastIndex((m) => m.role === "user");
+  const at = lastUser === -1 ? chatMessages.length : lastUser;
+  return [...chatMessages.slice(0, at), instruction, ...chatMessages.slice(at)];
+}
+
+// Swaps file references for the data URLs providers expect.
+async function resolveImages(messages: Message[], owner: string | null): Promise<Message[]> {
+  return Promise.all(messages.map(async (m) => {
+    if (!m.images?.some((image) => "fileId" in image)) return m;
+    const images = await Promise.all(m.images.map(async (image) => {
+      if ("url" in image) return image;
+      const file = await fileStore.get(image.fileId, owner);
+      return { url: `data:${file.type};base64,${file.data}` };
+    }));
+    return { ...m, images };
+  }));
+}
+
+function requireVision(model: Model, modelConfig: ModelConfig, imageCount: number) {
+  if (imageCount > 0 && !modelConfig.vision) {
+    throw new HttpError(400, `Model ${model} doesn't accept images`);
+  }
+}
+
+// Spending limits in USD. Days and months are UTC calendar periods.
+interface Quota {
+  daily?: number | undefined;
+  monthly?: number | undefined;
+}
+
+interface ApiKey {
+  id: string;
+  label: string;
+  hash: string;
+  createdAt: string;
+  revokedAt: string | null;
+  quota?: Quota | undefined;
+}
+
+interface User {
+  id: string;
+  name: string;
+  admin: boolean;
+  // Models beyond the public (non-authed) ones this user may call.
+  models: "*" | string[];
+  quota?: Quota | undefined;
+  keys: ApiKey[];
+}
+
+interface Caller {
+  user: User;
+  apiKey: ApiKey | undefined;
+}
+
+// The shared AUTH_KEY from secrets.json keeps working as a built-in admin so an
+// existing deployment can bootstrap its first real users through /admin/users.
+const ROOT_USER: User = { id: "admin", name: "Admin", admin: true, models: "*", keys: [] };
+
+const API_KEY_PREFIX = "dlb_";
+
+function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function publicUser(user: User) {
+  const { keys, ...rest } = user;
+  return { ...rest, keys: keys.map(({ hash: _hash, ...key }) => key) };
+}
+
+class UserStore {
+  file: string;
+  users: Map<string, User>;
+  writing: Promise<void>;
+
+  constructor(file: string) {
+    this.file = file;
+    this.users = new Map();
+    this.writing = Promise.resolve();
+    try {
+      const data: { users: User[] } = JSON.parse(fs.readFileSync(file, "utf8"));
+      for (const user of data.users) this.users.set(user.id, user);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  save(): Promise<void> {
+    const data = JSON.stringify({ users: [...this.users.values()] }, null, 2);
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await fsp.mkdir(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.${process.pid}.tmp`;
+      await fsp.writeFile(tmp, data, { mode: 0o600 });
+      await fsp.rename(tmp, this.file);
+    });
+    return this.writing;
+  }
+
+  findByKey(key: string): Caller | undefined {
+    const hash = Buffer.from(hashApiKey(key), "hex");
+    let found: Caller | undefined;
+    for (const user of this.users.values()) {
+      for (const apiKey of user.keys) {
+        if (apiKey.revokedAt) continue;
+        if (crypto.timingSafeEqual(hash, Buffer.from(apiKey.hash, "hex"))) found = { user, apiKey };
+      }
+    }
+    return found;
+  }
+
+  get(id: string): User {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new HttpError(404, "User not found");
+    }
+    return user;
+  }
+
+  async create(user: Omit<User, "keys">): Promise<User> {
+    if (user.id === ROOT_USER.id || this.users.has(user.id)) {
+      throw new HttpError(409, "User already exists");
+    }
+    const created = { ...user, keys: [] };
+    this.users.set(user.id, created);
+    await this.save();
+    return created;
+  }
+
+  async update(id: string, changes: Partial<Omit<User, "id" | "keys">>): Promise<User> {
+    const user = this.get(id);
+    Object.assign(user, changes);
+    await this.save();
+    return user;
+  }
+
+  async delete(id: string) {
+    this.get(id);
+    this.users.delete(id);
+    await this.save();
+  }
+
+  async createKey(id: string, label: string, quota: Quota | undefined): Promise<{ apiKey: ApiKey; key: string }> {
+    const user = this.get(id);
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+    const apiKey: ApiKey = {
+      id: `key_${crypto.randomBytes(6).toString("hex")}`,
+      label,
+      hash: hashApiKey(key),
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+      ...(quota ? { quota } : {}),
+    };
+    user.keys.push(apiKey);
+    await this.save();
+    return { apiKey, key };
+  }
+
+  async revokeKey(id: string, keyId: string): Promise<void> {
+    const apiKey = this.get(id).keys.find((k) => k.id === keyId);
+    if (!apiKey) {
+      throw new HttpError(404, "API key not found");
+    }
+    apiKey.revokedAt ??= new Date().toISOString();
+    await this.save();
+  }
+}
+
+const userStore = new UserStore(USERS_FILE);
+
+interface UsageRecord {
+  timestamp: string;
+  userId: string | null;
+  keyId: string | null;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number;
+}
+
+function usageCost(price: ModelConfig["price"], usage: Usage): number {
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
+
+function startOfUtcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfUtcMonth(date: Date): string {
+  return `${date.toISOString().slice(0, 7)}-01`;
+}
+
+// A crash in the middle of an append can leave a truncated line behind. It's
+// skipped so it can't stop the server or break usage reports.
+function parseUsageRecord(file: string, line: string): UsageRecord | undefined {
+  try {
+    return JSON.parse(line);
+  } catch (error) {
+    logger.warn("skipping unreadable usage record", { file, error: (error as Error).message });
+    return undefined;
+  }
+}
+
+// Append-only JSONL ledger. Records for the current month are kept in memory
+// for quota checks; reports re-read the file so they can cover any range.
+class UsageLedger {
+  file: string;
+  recent: UsageRecord[];
+  writing: Promise<void>;
+
+  constructor(file: string) {
+    this.file = file;
+    this.recent = [];
+    this.writing = Promise.resolve();
+    // Read once at startup; quota checks only need the current month.
+    const monthStart = startOfUtcMonth(new Date());
+    let content = "";
+    try {
+      content = fs.readFileSync(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+    // Keeps the next record off the end of a truncated one.
+    if (content && !content.endsWith("\n")) fs.appendFileSync(this.file, "\n");
+    for (const line of content.split("\n")) {
+      if (!line) continue;
+      const record = parseUsageRecord(this.file, line);
+      if (record && record.timestamp >= monthStart) this.recent.push(record);
+    }
+  }
+
+  // Streams the whole ledger, oldest first, without loading it into memory
+  // or blocking the event loop.
+  async *readAll(): AsyncGenerator<UsageRecord> {
+    await this.writing.catch(() => {});
+    let file: fsp.FileHandle;
+    try {
+      file = await fsp.open(this.file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    try {
+      for await (const line of file.readLines()) {
+        const record = line ? parseUsageRecord(this.file, line) : undefined;
+        if (record) yield record;
+      }
+    } finally {
+      await file.close();
+    }
+  }
+
+  record(caller: Caller | undefined, model: Model, price: ModelConfig["price"], usage: Usage): Promise<void> {
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      userId: caller?.user.id ?? null,
+      keyId: caller?.apiKey?.id ?? null,
+      model,
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      cost: usageCost(price, usage),
+    };
+    const monthStart = startOfUtcMonth(new Date());
+    this.recent = this.recent.filter((r) => r.timestamp >= monthStart);
+    this.recent.push(record);
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      await fsp.mkdir(path.dirname(this.file), { recursive: true });
+      await fsp.appendFile(this.file, `${JSON.stringify(record)}\n`);
+    });
+    return this.writing;
+  }
+
+  spent(matches: (record: UsageRecord) => boolean, since: string): number {
+    let total = 0;
+    for (const record of this.recent) {
+      if (record.timestamp >= since && matches(record)) total += record.cost;
+    }
+    return total;
+  }
+}
+
+const usageLedger = new UsageLedger(USAGE_FILE);
+
+// What a generation had streamed when it failed or was aborted. The provider
+// still processed the prompt and generated that text, so it's billed from
+// estimates.
+interface PartialCompletion {
+  caller: Caller | undefined;
+  model: Model;
+  modelConfig: ModelConfig;
+  chatMessages: ChatMessage[];
+  completion: string;
+}
+
+async function recordPartialUsage(partial: PartialCompletion | undefined) {
+  if (!partial?.completion) return;
+  const { caller, model, modelConfig, chatMessages, completion } = partial;
+  const promptText = chatMessages.map((m) => chatContentText(m.content)).join("\n");
+  try {
+    await usageLedger.record(caller, model, modelConfig.price, estimateUsage(promptText, completion, modelConfig.tokenizer));
+  } catch (error) {
+    logger.error("failed to record usage", { model, error });
+  }
+}
+
+function quotaStatus(quota: Quota | undefined, matches: (record: UsageRecord) => boolean) {
+  const now = new Date();
+  return {
+    daily: { limit: quota?.daily ?? null, spent: usageLedger.spent(matches, startOfUtcDay(now)) },
+    monthly: { limit: quota?.monthly ?? null, spent: usageLedger.spent(matches, startOfUtcMonth(now)) },
+  };
+}
+
+function checkQuota(name: string, quota: Quota | undefined, matches: (record: UsageRecord) => boolean) {
+  const { daily, monthly } = quotaStatus(quota, matches);
+  const now = new Date();
+  if (monthly.limit !== null && monthly.spent >= monthly.limit) {
+    const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+    throw new HttpError(429, `Monthly ${name} quota of $${monthly.limit.toFixed(2)} exceeded`, (nextMonth - now.getTime()) / 1000);
+  }
+  if (daily.limit !== null && daily.spent >= daily.limit) {
+    const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    throw new HttpError(429, `Daily ${name} quota of $${daily.limit.toFixed(2)} exceeded`, (nextDay - now.getTime()) / 1000);
+  }
+}
+
+// Quotas are checked before a request and charged after it, so a single
+// request can overshoot a limit by at most its own cost.
+function enforceQuotas(caller: Caller | undefined) {
+  if (!caller) {
+    checkQuota("anonymous", ANONYMOUS_QUOTA, (r) => r.userId === null);
+    return;
+  }
+  const { user, apiKey } = caller;
+  checkQuota("user", user.quota, (r) => r.userId === user.id);
+  if (apiKey) {
+    checkQuota("API key", apiKey.quota, (r) => r.keyId === apiKey.id);
+  }
+}
+
+function timeSafeCompare(a: string, b: string) {
+  // Brad Hill's Double HMAC pattern
+  const key = crypto.randomBytes(32);
+  const ah = crypto.createHmac('sha256', key).update(a).digest();
+  const bh = crypto.createHmac('sha256', key).update(b).digest();
+  return crypto.timingSafeEqual(ah, bh) && a === b;
+}
+
+// Framed protocol for /generate-chat-completion-streaming?format=events. Raw
+// mode (the default) writes bare text and stays as-is for the existing frontend.
+type StreamFormat = 'raw' | 'events';
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// Non-streaming models can think for minutes; progress events keep proxies
+// from timing out the idle connection in the meantime.
+const PROGRESS_INTERVAL_MS = 5_000;
+
+function writeSseEvent(res: http.ServerResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+interface BufferedEvent {
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+function writeBufferedEvent(res: http.ServerResponse, { id, event, data }: BufferedEvent) {
+  res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+const resumableStreams = new Map<string, ResumableStream>();
+
+// Events of a `resumable` generation, buffered so a client that lost its
+// connection can reconnect with GET /streams/:id and pick up where it left
+// off. Generation keeps going while nobody is attached, but is cancelled once
+// that lasts longer than the grace period. Finished streams stay around for
+// the same time.
+class ResumableStream {
+  id: string;
+  owner: string | null;
+  controller: AbortController;
+  events: BufferedEvent[];
+  clients: Set<http.ServerResponse>;
+  ended: boolean;
+  timer: NodeJS.Timeout | undefined;
+
+  constructor(owner: string | null, controller: AbortController) {
+    this.id = crypto.randomUUID();
+    this.owner = owner;
+    this.controller = controller;
+    this.events = [];
+    this.clients = new Set();
+    this.ended = false;
+    resumableStreams.set(this.id, this);
+  }
+
+  // Replays what came after event `after`, then follows the stream live.
+  attach(res: http.ServerResponse, after: number) {
+    clearTimeout(this.timer);
+    for (const event of this.events.slice(Math.max(after, 0))) {
+      writeBufferedEvent(res, event);
+    }
+    if (this.ended) {
+      res.end();
+      this.expireIn(RESUME_GRACE_MS);
+      return;
+    }
+    this.clients.add(res);
+    res.on("close", () => this.detach(res));
+  }
+
+  detach(res: http.ServerResponse) {
+    this.clients.delete(res);
+    if (!this.ended && this.clients.size === 0) {
+      logger.info("stream detached", { stream: this.id, events: this.events.length });
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => this.cancel("Nobody reconnected in time"), RESUME_GRACE_MS);
+    }
+  }
+
+  send(event: string, data: unknown) {
+    const buffered = { id: this.events.length + 1, event, data };
+    this.events.push(buffered);
+    for (const res of this.clients) writeBufferedEvent(res, buffered);
+  }
+
+  // Not buffered; only keeps attached connections alive.
+  heartbeat() {
+    for (const res of this.clients) writeSseEvent(res, "heartbeat", {});
+  }
+
+  end() {
+    if (this.ended) return;
+    this.ended = true;
+    for (const res of this.clients) res.end();
+    this.clients.clear();
+    this.expireIn(RESUME_GRACE_MS);
+  }
+
+  cancel(reason: string) {
+    if (this.ended) return;
+    logger.info("stream cancelled", { stream: this.id, reason });
+    this.controller.abort();
+    this.send("error", { status: 499, message: `Stream cancelled: ${reason}` });
+    this.end();
+  }
+
+  expireIn(ms: number) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => resumableStreams.delete(this.id), ms);
+  }
+}
+
+function getResumableStream(id: string, owner: string | null): ResumableStream {
+  const stream = resumableStreams.get(id);
+  if (!stream || (stream.owner !== null && stream.owner !== owner)) {
+    throw new HttpError(404, `Stream ${id} not found`);
+  }
+  return stream;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+class TokenBucketLimiter {
+  capacity: number;
+  refillPerMs: number;
+  buckets: Map<string, Bucket>;
+
+  constructor(perMinute: number, burst: number) {
+    this.capacity = burst;
+    this.refillPerMs = perMinute / 60_000;
+    this.buckets = new Map();
+    // Full buckets carry no state worth keeping.
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, bucket] of this.buckets) {
+        if (bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >= this.capacity) this.buckets.delete(key);
+      }
+    }, 60_000).unref();
+  }
+
+  take(key: string) {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    if (bucket.tokens < 1) {
+      throw new HttpError(429, "Too many requests", (1 - bucket.tokens) / this.refillPerMs / 1000);
+    }
+    bucket.tokens -= 1;
+  }
+}
+
+class ConcurrencyLimiter {
+  max: number;
+  inFlight: Map<string, number>;
+
+  constructor(max: number) {
+    this.max = max;
+    this.inFlight = new Map();
+  }
+
+  tryAcquire(key: string): boolean {
+    const count = this.inFlight.get(key) ?? 0;
+    if (count >= this.max) return false;
+    this.inFlight.set(key, count + 1);
+    return true;
+  }
+
+  release(key: string) {
+    const count = (this.inFlight.get(key) ?? 1) - 1;
+    if (count > 0) this.inFlight.set(key, count);
+    else this.inFlight.delete(key);
+  }
+
+  total(): number {
+    let total = 0;
+    for (const count of this.inFlight.values()) total += count;
+    return total;
+  }
+}
+
+const requestRateLimiter = new TokenBucketLimiter(RATE_LIMIT_REQUESTS_PER_MINUTE, RATE_LIMIT_BURST);
+const clientStreamLimiter = new ConcurrencyLimiter(MAX_STREAMS_PER_CLIENT);
+const providerStreamLimiter = new ConcurrencyLimiter(MAX_STREAMS_PER_PROVIDER);
+
+function clientKey(caller: Caller | undefined, clientIp: string): string {
+  if (caller?.apiKey) return `key:${caller.apiKey.id}`;
+  if (caller) return `user:${caller.user.id}`;
+  return `ip:${clientIp}`;
+}
+
+// Returns a release callback that must be called once the stream is over.
+// Provider slots are taken per attempt in completeWithFailover.
+function acquireStreamSlot(client: string): () => void {
+  if (!clientStreamLimiter.tryAcquire(client)) {
+    throw new HttpError(429, `Too many concurrent streams (limit ${MAX_STREAMS_PER_CLIENT})`, 1);
+  }
+  return () => clientStreamLimiter.release(client);
+}
+
+function authenticate(authKey: string | undefined): Caller | undefined {
+  if (!authKey) return undefined;
+  if (timeSafeCompare(authKey, secrets.AUTH_KEY ?? "")) return { user: ROOT_USER, apiKey: undefined };
+  return userStore.findByKey(authKey);
+}
+
+// Conversations are only stored for authed users; the public demo stays stateless.
+function requireUser(caller: Caller | undefined): User {
+  if (!caller) {
+    throw new HttpError(403, "Invalid auth key");
+  }
+  return caller.user;
+}
+
+function requireAdmin(caller: Caller | undefined): User {
+  const admin = requireUser(caller);
+  if (!admin.admin) {
+    throw new HttpError(403, "Admin access required");
+  }
+  return admin;
+}
+
+function canUseModel(user: User | undefined, model: Model): boolean {
+  const settings = modelRegistry.models[model];
+  if (!settings) return false;
+  if (!settings.authed) return true;
+  if (!user) return false;
+  return user.models === "*" || user.models.includes(model);
+}
+
+function listModels(user: User | undefined): Model[] {
+  return Object.keys(modelRegistry.models).filter((model) => canUseModel(user, model));
+}
+
+function requireModelAccess(user: User | undefined, model: Model) {
+  if (!canUseModel(user, model)) {
+    throw new HttpError(403, user ? `Model ${model} is not enabled for this user` : "Invalid auth key");
+  }
+}
+
+type MetricLabels = Record<string, string>;
+
+function metricLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+class Counter {
+  name: string;
+  help: string;
+  series: Map<string, { labels: MetricLabels; value: number }>;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+    this.series = new Map();
+  }
+
+  inc(labels: MetricLabels, value = 1) {
+    const key = metricLabels(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${metricLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+class Histogram {
+  name: string;
+  help: string;
+  buckets: number[];
+  series: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>;
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+    this.series = new Map();
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const key = metricLabels(labels);
+    const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]! += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+      ...[...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...this.buckets.map((bound, i) => `${this.name}_bucket${metricLabels({ ...labels, le: String(bound) })} ${counts[i]}`),
+        `${this.name}_bucket${metricLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${metricLabels(labels)} ${sum}`,
+        `${this.name}_count${metricLabels(labels)} ${count}`,
+      ]),
+    ];
+  }
+}
+
+const metrics = {
+  httpRequests: new Counter("http_requests_total", "HTTP requests by route, method and status."),
+  completions: new Counter("llm_completions_total", "Completed upstream requests by model and provider."),
+  errors: new Counter("llm_errors_total", "Failed upstream requests by model, provider and status."),
+  upstreamRetries: new Counter("llm_upstream_retries_total", "Upstream requests retried, by provider and reason."),
+  contentBlocked: new Counter("moderation_blocks_total", "Messages and replies refused by moderation, by stage and hook."),
+  timeToFirstToken: new Histogram("llm_time_to_first_token_seconds", "Time from sending the upstream request to the first content.", [0.1, 0.25, 0.5, 1, 2, 5, 10, 30]),
+  streamDuration: new Histogram("llm_stream_duration_seconds", "Time from sending the upstream request to the end of the reply.", [0.5, 1, 2, 5, 10, 30, 60, 120, 300]),
+};
+
+function renderMetrics(): string {
+  return Object.values(metrics).flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+// Ids in paths are collapsed so every conversation doesn't get its own series.
+const METRIC_ROUTES = new Set(["/", "/robots.txt", "/is-authed", "/generate-chat-completion-streaming", "/compare", "/v1/chat/completions", "/conversations", "/files", "/collections", "/models", "/v1/models", "/tools", "/presets", "/usage", "/admin/config", "/admin/config/reload", "/admin/users", "/metrics"]);
+
+function metricRoute(pathname: string): string {
+  for (const prefix of ["/conversations", "/files", "/collections", "/streams", "/admin/users"]) {
+    if (pathname.startsWith(`${prefix}/`)) return `${prefix}/:id`;
+  }
+  return METRIC_ROUTES.has(pathname) ? pathname : "other";
+}
+
+// Client mistakes are logged as warnings, everything else as errors.
+function logRequestError(error: unknown, fields: Record<string, unknown> = {}) {
+  const status = errorStatus(error);
+  (status < 500 ? logger.warn : logger.error)("request failed", { ...fields, status, error });
+}
+
+interface RequestContext {
+  authKey: string | undefined;
+  clientIp: string;
+}
+
+function getRequestContext(req: http.IncomingMessage): RequestContext {
+  const cookies = CookiesSchema.parse(req.headers.cookie ? parseCookie(req.headers.cookie) : {});
+  return {
+    authKey: getBearerToken(req.headers.authorization) ?? cookies["__Secure-authKey"],
+    clientIp: forwardedHeader(req, "x-forwarded-for") ?? req.socket.remoteAddress ?? "unknown",
+  };
+}
+
+const UPSTREAM_MAX_ATTEMPTS = 3;
+const UPSTREAM_RETRY_BASE_DELAY_MS = 300;
+// Longer upstream Retry-After waits are passed on to the client instead.
+const UPSTREAM_MAX_RETRY_AFTER_MS = 10_000;
+
+function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason ?? new Error("Aborted"));
+    const timer = setTimeout(() => {
       signal.removeEventListener("abort", onAbort);
       resolve();
     }, ms);
@@ -291,209 +2413,1025 @@ function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
   });
 }
 
-async function fetchUpstreamWithRetry(apiUrl: string, options: RequestInit, signal: AbortSignal): Promise<Response> {
-  let lastError: unknown;
-  for (let attempt = 1; attempt <= UPSTREAM_MAX_ATTEMPTS; attempt++) {
-    const lastAttempt = attempt === UPSTREAM_MAX_ATTEMPTS;
+async function fetchUpstreamWithRetry(provider: string, apiUrl: string, options: RequestInit, signal: AbortSignal): Promise<Response> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= UPSTREAM_MAX_ATTEMPTS; attempt++) {
+    const lastAttempt = attempt === UPSTREAM_MAX_ATTEMPTS;
+    try {
+      const response = await fetch(apiUrl, options);
+      if ((response.status >= 500 || response.status === 429) && !lastAttempt) {
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        const delay = retryAfter !== undefined ? retryAfter * 1000 : UPSTREAM_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        if (delay > UPSTREAM_MAX_RETRY_AFTER_MS) {
+          return response;
+        }
+        logger.warn("upstream returned an error, retrying", { provider, status: response.status, delay_ms: delay, attempt, max_attempts: UPSTREAM_MAX_ATTEMPTS });
+        metrics.upstreamRetries.inc({ provider, reason: String(response.status) });
+        await response.body?.cancel();
+        await abortableDelay(delay, signal);
+        continue;
+      }
+      return response;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      lastError = error;
+      if (lastAttempt) throw error;
+      logger.warn("upstream fetch failed, retrying", { provider, attempt, max_attempts: UPSTREAM_MAX_ATTEMPTS, error: (error as Error).message });
+      metrics.upstreamRetries.inc({ provider, reason: "network" });
+      await abortableDelay(UPSTREAM_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+    }
+  }
+  throw lastError;
+}
+
+// One ModelConfig per provider route: the primary provider first, then the
+// fallbacks in the order they're listed.
+function getModelRoutes(model: Model): ModelConfig[] {
+  const settings = modelRegistry.models[model];
+  if (!settings) {
+    throw new HttpError(400, `Unknown model ${model}`);
+  }
+  const routes = [
+    { provider: settings.provider, upstreamModel: settings.upstreamModel, stop: settings.stop },
+    ...settings.fallbacks,
+  ];
+  return routes.map((route) => {
+    const provider = modelRegistry.providers[route.provider]!;
+    const stop = route.stop !== undefined ? route.stop : settings.stop;
+    return {
+      model,
+      provider: route.provider,
+      upstreamModel: route.upstreamModel ?? model,
+      apiType: settings.apiType,
+      systemMessage: settings.systemMessage ?? provider.systemMessage,
+      systemRole: settings.systemRole,
+      api: provider.api,
+      bearerToken: provider.tokenSecret !== undefined ? secretValue(provider.tokenSecret) : undefined,
+      baseUrl: provider.baseUrl,
+      stop: stop === null ? undefined : stop ?? provider.stop,
+      streaming: settings.streaming ?? provider.streaming,
+      streamUsage: provider.streamUsage,
+      authed: settings.authed,
+      price: settings.price,
+      unsupportedParams: settings.unsupportedParams,
+      maxTokensParam: settings.maxTokensParam,
+      maxOutputTokens: settings.maxOutputTokens,
+      responseFormats: settings.responseFormats,
+      logprobs: settings.logprobs,
+      reasoning: settings.reasoning,
+      vision: settings.vision,
+      toolCalling: settings.toolCalling,
+      prefill: settings.prefill ?? provider.api !== "openai",
+      contextWindow: settings.contextWindow,
+      tokenizer: settings.tokenizer,
+      temperatureRange: settings.temperatureRange,
+    };
+  });
+}
+
+
+function requireLogprobs(model: Model, modelConfig: ModelConfig, params: SamplingParams) {
+  if (params.top_logprobs !== undefined && !params.logprobs) {
+    throw new HttpError(400, "Validation error: top_logprobs requires logprobs");
+  }
+  if (params.logprobs && !modelConfig.logprobs) {
+    throw new HttpError(400, `Model ${model} doesn't support logprobs`);
+  }
+}
+
+function requireJsonOutput(model: Model, modelConfig: ModelConfig) {
+  if (modelConfig.apiType !== 'chat') {
+    throw new HttpError(400, `Model ${model} doesn't support JSON output`);
+  }
+}
+
+function requireRetrieval(model: Model, modelConfig: ModelConfig) {
+  if (modelConfig.apiType !== 'chat') {
+    throw new HttpError(400, `Model ${model} doesn't support document collections`);
+  }
+}
+
+// The closest format the provider enforces itself, if any.
+function upstreamResponseFormat(responseFormat: JsonResponseFormat, modelConfig: ModelConfig): JsonResponseFormat | undefined {
+  if (modelConfig.responseFormats.includes(responseFormat.type)) return responseFormat;
+  if (modelConfig.responseFormats.includes("json_object")) return { type: "json_object" };
+  return undefined;
+}
+
+function jsonInstruction(responseFormat: JsonResponseFormat): string {
+  return responseFormat.type === "json_schema"
+    ? `Respond only with JSON matching this JSON schema, without any other text:\n${JSON.stringify(responseFormat.json_schema.schema)}`
+    : "Respond only with a valid JSON object, without any other text.";
+}
+
+// For providers without prefill, a reply is continued by asking for the rest.
+const CONTINUE_INSTRUCTION: ChatMessage = {
+  role: "user",
+  content: "Continue your previous reply exactly where it stopped. Don't repeat any of it or add a preamble.",
+};
+
+// Inserted after the leading system messages. OpenAI's json_object mode also
+// requires the word "JSON" to appear in the prompt, which this satisfies.
+function withJsonInstruction(chatMessages: ChatMessage[], responseFormat: JsonResponseFormat): ChatMessage[] {
+  const index = chatMessages.findIndex((m) => m.role !== "system");
+  const at = index === -1 ? chatMessages.length : index;
+  return [...chatMessages.slice(0, at), { role: "system", content: jsonInstruction(responseFormat) }, ...chatMessages.slice(at)];
+}
+
+// Models without native JSON mode like to wrap their answer in a code fence.
+function parseJsonOutput(completion: string, responseFormat: JsonResponseFormat): { text: string; value: unknown } {
+  const trimmed = completion.trim();
+  const text = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)?.[1] ?? trimmed;
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+  if (responseFormat.type === "json_object" && (typeof value !== "object" || value === null || Array.isArray(value))) {
+    throw new Error("Expected a JSON object");
+  }
+  if (responseFormat.type === "json_schema") {
+    const parsed = z.fromJSONSchema(responseFormat.json_schema.schema).safeParse(value);
+    if (!parsed.success) {
+      throw new Error(`Doesn't match the schema: ${z.prettifyError(parsed.error)}`);
+    }
+  }
+  return { text, value };
+}
+
+const JSON_REPAIR_ATTEMPTS = 1;
+
+// Carries the usage of the rejected attempts so they still count towards quotas.
+class JsonOutputError extends HttpError {
+  usage: Usage;
+  constructor(message: string, usage: Usage) {
+    super(502, message);
+    this.usage = usage;
+  }
+}
+
+// Runs a completion whose output must be JSON. Output is buffered rather
+// than streamed so nothing invalid reaches the client; invalid output gets
+// one repair round with the validation error fed back to the model.
+async function completeJson(
+  responseFormat: JsonResponseFormat,
+  complete: (repairMessages: ChatMessage[]) => Promise<CompletionResult>,
+): Promise<CompletionResult> {
+  let repairMessages: ChatMessage[] = [];
+  let usage: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  for (let attempt = 0; ; attempt++) {
+    const result = await complete(repairMessages);
+    usage = addUsage(usage, result.usage);
+    // A turn that calls the client's tools carries no output to validate yet.
+    if (result.toolCalls) {
+      return { ...result, usage };
+    }
+    try {
+      const { text } = parseJsonOutput(result.completion, responseFormat);
+      return { ...result, completion: text, usage };
+    } catch (error) {
+      const reason = (error as Error).message;
+      if (attempt >= JSON_REPAIR_ATTEMPTS) {
+        throw new JsonOutputError(`The model's output failed JSON validation: ${reason}`, usage);
+      }
+      logger.warn("json output invalid, asking for a repair", { reason });
+      repairMessages = [
+        { role: "assistant", content: result.completion },
+        { role: "user", content: `That reply was not valid. ${reason}\nReply again with only the corrected JSON.` },
+      ];
+    }
+  }
+}
+
+const PII_PATTERNS: Record<PiiKind, RegExp> = {
+  email: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  // International numbers starting with +, or local ones in the usual groupings:
+  // (555) 123-4567, 555-123-4567, 555.123.4567 and 020 7946 0958. Bare digit
+  // runs, dates and ISBNs don't match.
+  phone: /(?<![\w+.-])(?:\+\d(?:[\s().-]{0,2}\d){7,14}|\(\d{2,4}\)\s?\d{3,4}[\s.-]\d{4}|\d{2,4}([.-])\d{3,4}\1\d{4}|0\d{1,4} \d{3,4} \d{4})(?![.-]?\w)/g,
+  // OpenAI/Anthropic/Stripe-style secret keys, AWS access key ids, GitHub and Slack tokens.
+  api_key: /\b(?:sk|pk|rk)-[\w-]{16,}|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{36}\b|\bxox[abpr]-[\w-]{10,}/g,
+};
+
+const MODERATION_PROMPT = `You are a content moderator for a public chatbot. The user's messages are given as a JSON array of strings, oldest first. Decide whether any of them asks for or contains content that is illegal, sexual content involving minors, instructions for weapons or serious violence, self-harm encouragement, or targeted harassment. Ordinary questions, fiction and mild language are fine.`;
+
+const ModerationVerdictSchema = z.object({
+  flagged: z.boolean(),
+  // A short, user-facing explanation when flagged.
+  reason: z.string(),
+});
+
+class ContentPolicyError extends HttpError {
+  stage: ModerationStage;
+  hook: string;
+  reason: string;
+
+  constructor(stage: ModerationStage, hook: string, reason: string) {
+    super(stage === "input" ? 400 : 502, stage === "input" ? `Your message was blocked: ${reason}` : `The reply was blocked: ${reason}`);
+    this.stage = stage;
+    this.hook = hook;
+    this.reason = reason;
+  }
+}
+
+function refuse(stage: ModerationStage, hook: string, reason: string): never {
+  metrics.contentBlocked.inc({ stage, hook });
+  logger.warn("content blocked", { stage, hook, reason });
+  throw new ContentPolicyError(stage, hook, reason);
+}
+
+interface ModerationContext {
+  caller: Caller | undefined;
+  signal: AbortSignal;
+}
+
+// Pre-generation hooks get the text of every human message, oldest first,
+// and return it, possibly rewritten. Post-generation hooks see the end of the
+// reply so far each time a chunk arrives, before the chunk reaches the client:
+// the new chunk plus up to `outputWindow` characters before it. Both refuse by
+// throwing ContentPolicyError.
+type InputHook = (texts: string[], ctx: ModerationContext) => Promise<string[]>;
+type OutputHook = (tail: string) => void;
+
+interface ModerationPipeline {
+  input: InputHook[];
+  output: OutputHook[];
+  outputWindow: number;
+}
+
+function blocklistCheck(stage: ModerationStage, rules: ModerationConfig["blocklist"]): (text: string) => void {
+  const compiled = rules
+    .filter((rule) => rule.applyTo.includes(stage))
+    .map((rule) => ({ regex: new RegExp(rule.pattern, rule.flags), reason: rule.reason }));
+  return (text) => {
+    const match = compiled.find(({ regex }) => regex.test(text));
+    if (match) refuse(stage, "blocklist", match.reason);
+  };
+}
+
+function maskPii(text: string, kinds: PiiKind[]): string {
+  return kinds.reduce((masked, kind) => masked.replace(PII_PATTERNS[kind], `[${kind}]`), text);
+}
+
+// Every human message is classified, not just the latest: clients send the
+// whole transcript and could put anything in the earlier turns.
+async function moderateWithModel(model: Model, texts: string[], { caller, signal }: ModerationContext): Promise<string[]> {
+  if (texts.length === 0) return texts;
+  const routes = getModelRoutes(model);
+  const responseFormat: JsonResponseFormat = {
+    type: "json_schema",
+    json_schema: { name: "moderation", schema: z.toJSONSchema(ModerationVerdictSchema) as Record<string, unknown> },
+  };
+  const chatMessages: ChatMessage[] = [
+    { role: "system", content: MODERATION_PROMPT },
+    { role: "user", content: JSON.stringify(texts) },
+  ];
+  const result = await completeJson(responseFormat, (repairMessages) => completeWithFailover(routes, () => {}, signal, (route, onChunk) =>
+    streamChatCompletion(onChunk, [...chatMessages, ...repairMessages], route, { temperature: 0 }, signal, { responseFormat })
+  ));
+  await usageLedger.record(caller, model, routes[0]!.price, result.usage);
+  const verdict = ModerationVerdictSchema.parse(JSON.parse(result.completion));
+  if (verdict.flagged) refuse("input", "moderation_model", verdict.reason);
+  return texts;
+}
+
+// Blocklists run on the original text, so masking can't hide a match; the
+// moderation model only ever sees masked text.
+function moderationPipeline(config: ModerationConfig): ModerationPipeline {
+  const input: InputHook[] = [];
+  const output: OutputHook[] = [];
+  const outputRules = config.blocklist.filter((rule) => rule.applyTo.includes("output"));
+  if (config.blocklist.some((rule) => rule.applyTo.includes("input"))) {
+    const check = blocklistCheck("input", config.blocklist);
+    input.push(async (texts) => {
+      texts.forEach(check);
+      return texts;
+    });
+  }
+  if (config.maskPii.length > 0) {
+    input.push(async (texts) => texts.map((text) => maskPii(text, config.maskPii)));
+  }
+  if (config.moderationModel !== undefined) {
+    const model = config.moderationModel;
+    input.push((texts, ctx) => moderateWithModel(model, texts, ctx));
+  }
+  if (outputRules.length > 0) {
+    output.push(blocklistCheck("output", outputRules));
+  }
+  // A match that ends in a new chunk starts at most maxLength - 1 characters before it.
+  return { input, output, outputWindow: Math.max(0, ...outputRules.map((rule) => rule.maxLength - 1)) };
+}
+
+async function moderateInput(texts: string[], ctx: ModerationContext): Promise<string[]> {
+  let result = texts;
+  for (const hook of moderation.input) {
+    result = await hook(result, ctx);
+  }
+  return result;
+}
+
+async function moderateMessages(messages: Message[], ctx: ModerationContext): Promise<Message[]> {
+  const texts = await moderateInput(messages.flatMap((m) => m.party === "human" ? [m.text] : []), ctx);
+  let i = 0;
+  return messages.map((m) => m.party === "human" ? { ...m, text: texts[i++]! } : m);
+}
+
+// Each text part of a user message is moderated on its own.
+async function moderateOpenAIMessages(messages: z.infer<typeof OpenAIMessageSchema>[], ctx: ModerationContext): Promise<z.infer<typeof OpenAIMessageSchema>[]> {
+  const texts = await moderateInput(messages.flatMap((m) =>
+    m.role !== "user" ? [] : typeof m.content === "string" ? [m.content] : m.content.flatMap((part) => part.type === "text" ? [part.text] : [])
+  ), ctx);
+  let i = 0;
+  return messages.map((m) => m.role !== "user" ? m : {
+    ...m,
+    content: typeof m.content === "string" ? texts[i++]! : m.content.map((part) => part.type === "text" ? { ...part, text: texts[i++]! } : part),
+  });
+}
+
+// Checks the reply as it streams. A chunk that completes a blocked phrase is
+// withheld, though earlier chunks may already hold part of it. Only the tail a
+// match could still reach is kept, so long replies aren't rescanned.
+function guardOutput(onChunk: ChunkHandler): ChunkHandler {
+  const { output: hooks, outputWindow } = moderation;
+  if (hooks.length === 0) return onChunk;
+  let previous = "";
+  return (content, logprobs) => {
+    const tail = previous + content;
+    for (const hook of hooks) hook(tail);
+    previous = outputWindow > 0 ? tail.slice(-outputWindow) : "";
+    onChunk(content, logprobs);
+  };
+}
+
+function toLogProbContent(logprobs: CompletionLogprobs): LogProbContent[] {
+  return logprobs.tokens.map((token, i) => ({
+    token,
+    logprob: logprobs.token_logprobs[i] ?? 0,
+    bytes: [...Buffer.from(token)],
+    top_logprobs: Object.entries(logprobs.top_logprobs?.[i] ?? {}).map(([token, logprob]) => ({ token, logprob })),
+  }));
+}
+
+function getModelConfig(model: Model): ModelConfig {
+  return getModelRoutes(model)[0]!;
+}
+
+interface CachedChunk {
+  content: string;
+  logprobs?: LogProbContent[];
+}
+
+interface CachedResponse {
+  storedAt: number;
+  chunks: CachedChunk[];
+  result: CompletionResult;
+}
+
+// Completed replies keyed by a hash of the request, in an in-memory LRU and
+// optionally mirrored to one JSON file per entry. Hits are replayed chunk by
+// chunk so clients see the same stream they would from the provider.
+class ResponseCache {
+  maxEntries: number;
+  ttlMs: number;
+  dir: string | undefined;
+  entries: Map<string, CachedResponse>;
+
+  constructor(maxEntries: number, ttlMs: number, dir?: string) {
+    this.maxEntries = maxEntries;
+    this.ttlMs = ttlMs;
+    this.dir = dir;
+    this.entries = new Map();
+    // Files that are never looked up again would otherwise pile up on disk.
+    if (this.enabled && this.dir) {
+      setInterval(() => void this.sweep(), RESPONSE_CACHE_SWEEP_MS).unref();
+    }
+  }
+
+  get enabled() {
+    return this.maxEntries > 0;
+  }
+
+  filePath(key: string) {
+    return path.join(this.dir!, `${key}.json`);
+  }
+
+  isFresh(entry: CachedResponse) {
+    return Date.now() - entry.storedAt < this.ttlMs;
+  }
+
+  remember(key: string, entry: CachedResponse) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    let entry = this.entries.get(key);
+    if (!entry && this.dir) {
+      try {
+        entry = JSON.parse(await fsp.readFile(this.filePath(key), "utf8")) as CachedResponse;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") logger.warn("response cache read failed", { error });
+        return undefined;
+      }
+    }
+    if (!entry) return undefined;
+    if (!this.isFresh(entry)) {
+      this.entries.delete(key);
+      if (this.dir) await fsp.rm(this.filePath(key), { force: true });
+      return undefined;
+    }
+    this.remember(key, entry);
+    return entry;
+  }
+
+  // Entries are written once, so a file's mtime is when it was stored. Temp
+  // files left behind by a crash mid-write go the same way.
+  async sweep() {
     try {
-      const response = await fetch(apiUrl, options);
-      if (response.status >= 500 && !lastAttempt) {
-        console.warn(`upstream returned ${response.status}, retrying (attempt ${attempt}/${UPSTREAM_MAX_ATTEMPTS})`);
-        await response.body?.cancel();
-        await abortableDelay(UPSTREAM_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
-        continue;
+      for (const file of await fsp.readdir(this.dir!)) {
+        const filePath = path.join(this.dir!, file);
+        const { mtimeMs } = await fsp.stat(filePath).catch(() => ({ mtimeMs: Date.now() }));
+        if (Date.now() - mtimeMs >= this.ttlMs) await fsp.rm(filePath, { force: true });
       }
-      return response;
     } catch (error) {
-      if (signal.aborted) throw error;
-      lastError = error;
-      if (lastAttempt) throw error;
-      console.warn(`upstream fetch failed, retrying (attempt ${attempt}/${UPSTREAM_MAX_ATTEMPTS}):`, (error as Error).message);
-      await abortableDelay(UPSTREAM_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") logger.warn("response cache sweep failed", { error });
+    }
+  }
+
+  async set(key: string, chunks: CachedChunk[], result: CompletionResult) {
+    const entry: CachedResponse = { storedAt: Date.now(), chunks, result };
+    this.remember(key, entry);
+    if (!this.dir) return;
+    try {
+      await fsp.mkdir(this.dir, { recursive: true });
+      const target = this.filePath(key);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fsp.writeFile(tmp, JSON.stringify(entry));
+      await fsp.rename(tmp, target);
+    } catch (error) {
+      logger.warn("response cache write failed", { error });
     }
   }
-  throw lastError;
 }
 
-interface ModelConfig {
-  apiType: 'chat' | 'instruct'
-  systemMessage: 'default' | 'custom'
-  bearerToken: string | undefined
-  apiUrl: string
-  stop: string | undefined
-  streaming: boolean
-  authed: boolean
+const responseCache = new ResponseCache(RESPONSE_CACHE_ENTRIES, RESPONSE_CACHE_TTL_SECONDS * 1000, RESPONSE_CACHE_DIR);
+
+interface CacheableRequest {
+  model: Model;
+  chatMessages: ChatMessage[];
+  params: SamplingParams;
+  responseFormat: JsonResponseFormat | undefined;
+  cache: boolean | undefined;
 }
 
-function getModelConfig(model: Model): ModelConfig {
-  const { provider, authed } = MODEL_SETTINGS[model];
-  switch (provider) {
-    case "deepinfra":
-      return {
-        apiType: 'chat',
-        systemMessage: 'default',
-        bearerToken: secrets.DEEPINFRA_BEARER_TOKEN,
-        apiUrl: "https://api.deepinfra.com/v1/openai/chat/completions",
-        stop: "END_OF_STREAM",
-        streaming: true,
-        authed,
-      }
-    case "together":
-      return {
-        apiType: 'chat',
-        systemMessage: 'default',
-        bearerToken: secrets.TOGETHER_BEARER_TOKEN,
-        apiUrl: "https://api.together.xyz/v1/chat/completions",
-        stop: "<|eot_id|>",
-        streaming: true,
-        authed,
-      }
-    case "openrouter":
-      return {
-        apiType: 'chat',
-        systemMessage: 'default',
-        bearerToken: secrets.OPENROUTER_BEARER_TOKEN,
-        apiUrl: "https://openrouter.ai/api/v1/chat/completions",
-        stop: "END_OF_STREAM",
-        streaming: true,
-        authed,
-      }
-    case "openai": {
-      const streaming = !NON_STREAMING_MODELS.has(model);
-      return {
-        apiType: model === "gpt-3.5-turbo-instruct" ? 'instruct' : 'chat',
-        systemMessage: model === "o1-preview" || model === "o1-mini" ? 'default' : 'custom',
-        bearerToken: secrets.BEARER_TOKEN,
-        apiUrl: model === "gpt-3.5-turbo-instruct" ? "https://api.openai.com/v1/completions" : "https://api.openai.com/v1/chat/completions",
-        stop: streaming ? "END_OF_STREAM" : undefined,
-        streaming,
-        authed,
-      }
+// Undefined when the request shouldn't use the cache. Message text is
+// trimmed and only the sampling parameters that reach the provider are
+// hashed, so cosmetic differences still hit.
+function responseCacheKey({ model, chatMessages, params, responseFormat, cache }: CacheableRequest): string | undefined {
+  if (!responseCache.enabled || cache === false) return undefined;
+  if (cache !== true && params.temperature !== 0) return undefined;
+  const messages = chatMessages.map((m) => ({
+    role: m.role,
+    content: typeof m.content === "string" ? m.content.trim() : m.content.map((part) => part.type === "text" ? { ...part, text: part.text.trim() } : part),
+  }));
+  const sampling = Object.fromEntries(SamplingParamNameSchema.options.flatMap((name) => params[name] !== undefined ? [[name, params[name]]] : []));
+  return crypto.createHash("sha256").update(JSON.stringify({ model, messages, sampling, responseFormat })).digest("hex");
+}
+
+// Wraps a chunk handler so the chunks it sees can be stored with the result.
+function recordChunks(onChunk: ChunkHandler): { onChunk: ChunkHandler; chunks: CachedChunk[] } {
+  const chunks: CachedChunk[] = [];
+  return {
+    chunks,
+    onChunk: (content, logprobs) => {
+      if (content || logprobs) chunks.push(logprobs ? { content, logprobs } : { content });
+      onChunk(content, logprobs);
+    },
+  };
+}
+
+async function replayCachedResponse(entry: CachedResponse, onChunk: ChunkHandler, onReasoning?: (content: string) => void): Promise<CompletionResult> {
+  if (entry.result.reasoning) onReasoning?.(entry.result.reasoning);
+  for (const chunk of entry.chunks) {
+    onChunk(chunk.content, chunk.logprobs);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return entry.result;
+}
+
+const CIRCUIT_BREAKER_THRESHOLD = 3;
+const CIRCUIT_BREAKER_COOLDOWN_MS = 30_000;
+
+interface CircuitState {
+  failures: number;
+  openedAt: number | null;
+  // Set while the one request let through after the cooldown is running.
+  probing: boolean;
+}
+
+// Skips a provider for a cooldown after repeated failures. Once the cooldown
+// is over a single request is let through as a probe while the others keep
+// skipping the provider. The probe's success closes the circuit and its
+// failure re-opens it.
+class CircuitBreaker {
+  threshold: number;
+  cooldownMs: number;
+  states: Map<string, CircuitState>;
+
+  constructor(threshold: number, cooldownMs: number) {
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+    this.states = new Map();
+  }
+
+  remainingMs(key: string): number {
+    const openedAt = this.states.get(key)?.openedAt;
+    if (openedAt == null) return 0;
+    return Math.max(0, openedAt + this.cooldownMs - Date.now());
+  }
+
+  isOpen(key: string): boolean {
+    return this.remainingMs(key) > 0 || this.states.get(key)?.probing === true;
+  }
+
+  // Called before each request; false means the provider should be skipped.
+  tryAcquire(key: string): boolean {
+    const state = this.states.get(key);
+    if (state?.openedAt == null) return true;
+    if (this.isOpen(key)) return false;
+    state.probing = true;
+    return true;
+  }
+
+  // Ends a probe that neither succeeded nor failed, e.g. a cancelled one.
+  release(key: string) {
+    const state = this.states.get(key);
+    if (state) state.probing = false;
+  }
+
+  recordSuccess(key: string) {
+    this.states.delete(key);
+  }
+
+  recordFailure(key: string) {
+    const state = this.states.get(key) ?? { failures: 0, openedAt: null, probing: false };
+    state.failures += 1;
+    state.probing = false;
+    if (state.failures >= this.threshold) {
+      if (state.openedAt === null) logger.warn("circuit opened", { provider: key });
+      state.openedAt = Date.now();
     }
+    this.states.set(key, state);
   }
 }
 
-async function streamChatCompletion(onChunk: (content: string) => void, authKey: string | undefined, messages: Message[], model: Model, modelConfig: ModelConfig, signal: AbortSignal) {
-  const { systemMessage, bearerToken, stop, apiUrl, streaming, authed } = modelConfig;
+const providerCircuitBreaker = new CircuitBreaker(CIRCUIT_BREAKER_THRESHOLD, CIRCUIT_BREAKER_COOLDOWN_MS);
 
-  if (authed && !timeSafeCompare(authKey ?? "", secrets.AUTH_KEY ?? "")) {
-    throw new HttpError(403, "Invalid auth key");
+function isFailoverError(error: unknown): boolean {
+  if (error instanceof UpstreamError) {
+    return error.upstreamStatus >= 500 || error.upstreamStatus === 429;
   }
-  const chatMessages = [
-    ...(systemMessage === 'custom' ? [{
-      role: "system",
-      content: "You are a helpful AI language model assistant.",
-    }] : []),
-    ...messages.map((m) => ({
-      role: m.party === "human" ? "user" : "assistant",
-      content: m.text,
-    })),
-  ];
+  // Anything that isn't one of our own errors is a connection or protocol failure.
+  return !(error instanceof HttpError);
+}
+
+// Runs the request against each route in turn until one succeeds. Once any
+// content has reached the client we can't switch providers, so errors after
+// that point are rethrown as-is.
+async function completeWithFailover(
+  routes: ModelConfig[],
+  onChunk: ChunkHandler,
+  signal: AbortSignal,
+  run: (modelConfig: ModelConfig, onChunk: ChunkHandler) => Promise<CompletionResult>,
+): Promise<CompletionResult> {
+  let streamed = false;
+  const trackedOnChunk: ChunkHandler = (content, logprobs) => {
+    if (content) streamed = true;
+    onChunk(content, logprobs);
+  };
+  // A provider whose probe is running has no cooldown left, so wait at least a second.
+  const unavailable = () => new HttpError(503, "All providers for this model are temporarily unavailable",
+    Math.max(1, Math.min(...routes.map((route) => providerCircuitBreaker.remainingMs(route.provider))) / 1000));
+  const available = routes.filter((route) => !providerCircuitBreaker.isOpen(route.provider));
+  if (available.length === 0) {
+    throw unavailable();
+  }
+  let lastError: unknown;
+  for (const route of available) {
+    // Another request may have taken the probe while earlier routes were tried.
+    if (!providerCircuitBreaker.tryAcquire(route.provider)) {
+      lastError ??= unavailable();
+      continue;
+    }
+    if (!providerStreamLimiter.tryAcquire(route.provider)) {
+      providerCircuitBreaker.release(route.provider);
+      lastError = new UpstreamError(429, 429, `Too many concurrent streams to ${route.provider}, try again shortly`, 1);
+      continue;
+    }
+    const labels = { model: route.model, provider: route.provider };
+    const startedAt = performance.now();
+    let firstChunk = true;
+    const routeOnChunk: ChunkHandler = (content, logprobs) => {
+      if (content && firstChunk) {
+        firstChunk = false;
+        metrics.timeToFirstToken.observe(labels, (performance.now() - startedAt) / 1000);
+      }
+      trackedOnChunk(content, logprobs);
+    };
+    try {
+      const result = await run(route, routeOnChunk);
+      providerCircuitBreaker.recordSuccess(route.provider);
+      metrics.completions.inc(labels);
+      metrics.streamDuration.observe(labels, (performance.now() - startedAt) / 1000);
+      return result;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      metrics.errors.inc({ ...labels, status: String(errorStatus(error)) });
+      if (!isFailoverError(error)) throw error;
+      providerCircuitBreaker.recordFailure(route.provider);
+      if (streamed) throw error;
+      lastError = error;
+      logger.warn("provider failed, trying the next route", { model: route.model, provider: route.provider, error });
+    } finally {
+      providerStreamLimiter.release(route.provider);
+      providerCircuitBreaker.release(route.provider);
+    }
+  }
+  throw lastError;
+}
+
+async function withProgress<T>(work: Promise<T>, onProgress: ((elapsedMs: number) => void) | undefined, startedAt = Date.now()): Promise<T> {
+  if (!onProgress) return work;
+  const timer = setInterval(() => onProgress(Date.now() - startedAt), PROGRESS_INTERVAL_MS);
+  try {
+    return await work;
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+
+async function streamChatCompletion(onChunk: ChunkHandler, chatMessages: ChatMessage[], modelConfig: ModelConfig, params: SamplingParams, signal: AbortSignal, completionOptions: ChatCompletionOptions = {}): Promise<CompletionResult> {
+  const { streaming, systemRole, tokenizer } = modelConfig;
+  const { tools: toolParams, responseFormat, onReasoning, onProgress, sources, continueReply } = completionOptions;
+  const adapter = providerAdapters[modelConfig.api];
+  const startedAt = Date.now();
+  const upstreamFormat = responseFormat && upstreamResponseFormat(responseFormat, modelConfig);
+  const continuedMessages = continueReply && !modelConfig.prefill ? [...chatMessages, CONTINUE_INSTRUCTION] : chatMessages;
+  const groundedMessages = sources?.length ? withSources(continuedMessages, sources) : continuedMessages;
+  const formattedMessages = responseFormat && upstreamFormat?.type !== "json_schema" ? withJsonInstruction(groundedMessages, responseFormat) : groundedMessages;
+  const upstreamMessages = fitChatMessages(systemRole ? formattedMessages : foldSystemMessages(formattedMessages), modelConfig, params);
+  const promptText = upstreamMessages.map((m) => chatContentText(m.content)).join("\n");
+  const request = adapter.chatRequest(modelConfig, {
+    messages: upstreamMessages,
+    params,
+    stream: streaming,
+    ...(toolParams ? { tools: toolParams } : {}),
+    ...(upstreamFormat ? { responseFormat: upstreamFormat } : {}),
+  });
   const options = {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${bearerToken}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: chatMessages,
-      stream: streaming,
-      stop,
-    }),
+    headers: request.headers,
+    body: JSON.stringify(request.body),
     signal,
   };
-  const response = await fetchUpstreamWithRetry(apiUrl, options, signal);
+  const response = await withProgress(fetchUpstreamWithRetry(modelConfig.provider, request.url, options, signal), streaming ? undefined : onProgress, startedAt);
   if (!response.ok) {
-    throw await upstreamHttpError(response);
+    throw await upstreamHttpError(response, adapter);
   }
   if (!response.body) {
     throw new Error("No response body");
   }
 
+  let completion = "";
+  let reasoning = "";
+  const logprobs: LogProbContent[] = [];
+  let finishReason: string | null = null;
+  let usage: Usage | undefined;
+  const toolCalls: ToolCall[] = [];
+  const applyDelta = (delta: CompletionDelta) => {
+    if (delta.usage) {
+      usage = delta.usage;
+    }
+    if (delta.finishReason) {
+      finishReason = delta.finishReason;
+    }
+    if (delta.reasoning) {
+      onReasoning?.(delta.reasoning);
+      reasoning += delta.reasoning;
+    }
+    for (const fragment of delta.toolCalls ?? []) {
+      const toolCall = toolCalls[fragment.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } };
+      if (fragment.id) toolCall.id = fragment.id;
+      toolCall.function.name += fragment.function?.name ?? "";
+      toolCall.function.arguments += fragment.function?.arguments ?? "";
+    }
+    if (!delta.content) {
+      return;
+    }
+    onChunk(delta.content, delta.logprobs);
+    completion += delta.content;
+    if (delta.logprobs) logprobs.push(...delta.logprobs);
+  };
+
   if (!streaming) {
-    const result = await response.text()
-    const data = JSON.parse(result)
-    const completion = data.choices[0].message.content
-    onChunk(completion);
-    console.log("completion", completion);
-    return
+    const result = await withProgress(response.text(), onProgress, startedAt);
+    applyDelta(adapter.chatResponse(result));
+  } else {
+    const reader = response.body.getReader();
+    try {
+      const parse = adapter.chatStreamParser();
+      for await (const event of readStreamEvents(reader, adapter.framing)) {
+        parse(event).forEach(applyDelta);
+      }
+    } finally {
+      await reader.cancel();
+    }
   }
+  logger.info("completion", { model: modelConfig.model, provider: modelConfig.provider, completion: redactContent(completion) });
+  const calls = toolCalls.filter(Boolean);
+  return {
+    completion,
+    finishReason,
+    usage: usage ?? estimateUsage(promptText, completion, tokenizer),
+    ...(calls.length > 0 ? { toolCalls: calls } : {}),
+    ...(reasoning ? { reasoning } : {}),
+    ...(logprobs.length > 0 ? { logprobs } : {}),
+  };
+}
 
-  const reader = response.body.getReader();
-  try {
-    const doubleNewlineReader = new DoubleNewlineReader(reader);
-    let completion = "";
-    while (true) {
-      const { done, value: dataString } = await doubleNewlineReader.readUntilDoubleNewline();
-      if (done) {
-        break;
+interface Tool {
+  definition: ToolDefinition;
+  run: (args: unknown) => Promise<unknown>;
+}
+
+// Server-side tools the model can call on /generate-chat-completion-streaming.
+// Arguments are validated with the tool's zod schema, which is also what the
+// model sees as the JSON schema for its parameters.
+class ToolRegistry {
+  tools: Map<string, Tool>;
+
+  constructor() {
+    this.tools = new Map();
+  }
+
+  register<S extends z.ZodType>(name: string, description: string, parameters: S, handler: (args: z.infer<S>) => unknown) {
+    const { $schema: _schema, ...schema } = z.toJSONSchema(parameters);
+    this.tools.set(name, {
+      definition: { type: "function", function: { name, description, parameters: schema } },
+      run: async (args) => handler(parameters.parse(args)),
+    });
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()].map((tool) => tool.definition);
+  }
+
+  definitions(names: string[]): ToolDefinition[] {
+    return names.map((name) => {
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw new HttpError(400, `Unknown tool ${name}`);
       }
-      const dataArray = chunkToDataArray<ChatData>(dataString);
+      return tool.definition;
+    });
+  }
 
-      for (let i = 0; i < dataArray.length; i++) {
-        const data = dataArray[i];
-        const { choices } = data;
-        if (!choices?.length) {
-          continue
-        }
-        const lastChoice = choices[choices.length - 1];
-        const { delta } = lastChoice;
-        const content = delta.content ?? "";
-        onChunk(content);
-        completion += content;
+  // Failures are reported back to the model as the tool's result rather
+  // than ending the request, so it can correct its arguments or move on.
+  async call(toolCall: ToolCall): Promise<string> {
+    const tool = this.tools.get(toolCall.function.name);
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool ${toolCall.function.name}`);
       }
+      const result = await tool.run(JSON.parse(toolCall.function.arguments || "{}"));
+      return JSON.stringify({ result });
+    } catch (error) {
+      return JSON.stringify({ error: (error as Error).message });
     }
-    console.log("completion", completion);
-  } catch (error) {
-    await reader.cancel();
-    throw error;
   }
-  await reader.cancel();
 }
 
-async function streamInstructCompletion(onChunk: (content: string) => void, messages: Message[], model: Model, modelConfig: ModelConfig, signal: AbortSignal) {
-  const { bearerToken, apiUrl } = modelConfig;
+const CALCULATOR_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const CALCULATOR_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+// A small recursive-descent parser, so model-supplied input never reaches eval.
+// Supports + - * / % ^ (or **), parentheses, and the constants and functions above.
+function evaluateExpression(expression: string): number {
+  const tokens = expression.toLowerCase().match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^()]/g) ?? [];
+  if (tokens.join("") !== expression.toLowerCase().replace(/\s+/g, "")) {
+    throw new Error("Invalid expression");
+  }
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const sum = (): number => {
+    let value = product();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + product() : value - product();
+    }
+    return value;
+  };
+  const product = (): number => {
+    let value = unary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = next();
+      const rhs = unary();
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+  const unary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -unary();
+    }
+    if (peek() === "+") {
+      next();
+      return unary();
+    }
+    return power();
+  };
+  const power = (): number => {
+    const base = primary();
+    if (peek() === "^" || peek() === "**") {
+      next();
+      return base ** unary();
+    }
+    return base;
+  };
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error("Unexpected end of expression");
+    }
+    if (token === "(") {
+      const value = sum();
+      if (next() !== ")") throw new Error("Expected )");
+      return value;
+    }
+    if (/^[\d.]/.test(token)) {
+      return Number(token);
+    }
+    if (token in CALCULATOR_CONSTANTS) {
+      return CALCULATOR_CONSTANTS[token]!;
+    }
+    const fn = CALCULATOR_FUNCTIONS[token];
+    if (fn && next() === "(") {
+      const value = sum();
+      if (next() !== ")") throw new Error("Expected )");
+      return fn(value);
+    }
+    throw new Error(`Unexpected ${token}`);
+  };
+
+  const value = sum();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected ${tokens[pos]}`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error("The result is not a finite number");
+  }
+  return value;
+}
+
+const toolRegistry = new ToolRegistry();
+
+toolRegistry.register(
+  "calculator",
+  `Evaluates an arithmetic expression. Supports + - * / % ^, parentheses, ${Object.keys(CALCULATOR_CONSTANTS).join(", ")} and ${Object.keys(CALCULATOR_FUNCTIONS).join(", ")}.`,
+  z.object({ expression: z.string().max(1000) }),
+  ({ expression }) => evaluateExpression(expression),
+);
+
+toolRegistry.register(
+  "current_time",
+  "Returns the current date and time, optionally in an IANA time zone such as Europe/Berlin.",
+  z.object({ timezone: z.string().optional() }),
+  ({ timezone = "UTC" }) => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      timezone,
+      local: now.toLocaleString("en-US", { timeZone: timezone, dateStyle: "full", timeStyle: "long" }),
+    };
+  },
+);
+
+function requireToolCalling(model: Model, modelConfig: ModelConfig) {
+  if (modelConfig.apiType !== 'chat' || !modelConfig.toolCalling) {
+    throw new HttpError(400, `Model ${model} doesn't support tool calling`);
+  }
+}
+
+const MAX_TOOL_ROUNDS = 5;
 
-  const prompt = generatePrompt(messages);
-  const encoded: { bpe: number[]; text: string[] } =
-    tokenizer.encode(prompt);
-  const promptTokens = encoded.bpe.length;
+type ToolEventHandler = (event: "tool_call" | "tool_result", data: object) => void;
 
-  if (promptTokens >= MAX_TOKENS - TOKENS_SAFETY_MARGIN) {
-    throw new HttpError(400, "Too many tokens.");
+// Lets the model call server-side tools until it answers. Each round is a new
+// upstream request with the tool results appended; after MAX_TOOL_ROUNDS the
+// model is told not to call any more tools. Not every provider honors that,
+// so tool calls in the final round end the reply with the text so far.
+async function completeWithTools(
+  routes: ModelConfig[],
+  chatMessages: ChatMessage[],
+  params: SamplingParams,
+  tools: ToolDefinition[],
+  onChunk: ChunkHandler,
+  onToolEvent: ToolEventHandler,
+  signal: AbortSignal,
+  completionOptions: Omit<ChatCompletionOptions, "tools"> = {},
+): Promise<CompletionResult> {
+  const messages = [...chatMessages];
+  let completion = "";
+  const logprobs: LogProbContent[] = [];
+  let usage: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  for (let round = 1; ; round++) {
+    const toolParams: ToolParams = round > MAX_TOOL_ROUNDS ? { tools, tool_choice: "none" } : { tools };
+    const result = await completeWithFailover(routes, onChunk, signal, (route, onRouteChunk) =>
+      streamChatCompletion(onRouteChunk, messages, route, params, signal, { ...completionOptions, tools: toolParams })
+    );
+    completion += result.completion;
+    logprobs.push(...result.logprobs ?? []);
+    usage = addUsage(usage, result.usage);
+    if (!result.toolCalls) {
+      return { completion, finishReason: result.finishReason, usage, ...(logprobs.length > 0 ? { logprobs } : {}) };
+    }
+    if (round > MAX_TOOL_ROUNDS) {
+      logger.warn("model kept calling tools after the last round", { model: routes[0]!.model, rounds: round });
+      return { completion, finishReason: "length", usage, ...(logprobs.length > 0 ? { logprobs } : {}) };
+    }
+    messages.push({ role: "assistant", content: result.completion, tool_calls: result.toolCalls });
+    for (const toolCall of result.toolCalls) {
+      const { id, function: { name, arguments: args } } = toolCall;
+      logger.info("tool call", { tool: name });
+      onToolEvent("tool_call", { id, name, arguments: args });
+      const output = await toolRegistry.call(toolCall);
+      onToolEvent("tool_result", { id, name, output });
+      messages.push({ role: "tool", tool_call_id: id, content: output });
+    }
   }
+}
+
+async function streamInstructCompletion(onChunk: ChunkHandler, messages: Message[], systemPrompt: string | undefined, modelConfig: ModelConfig, params: SamplingParams, signal: AbortSignal, continueReply = false): Promise<CompletionResult> {
+  const { bearerToken, baseUrl, upstreamModel: model, contextWindow, tokenizer } = modelConfig;
+
+  const fitted = fitInstructMessages(messages, systemPrompt, modelConfig, params);
+  const prompt = continueReply
+    ? generatePrompt(fitted.slice(0, -1), systemPrompt, fitted.at(-1)!.text)
+    : generatePrompt(fitted, systemPrompt);
+  const promptTokens = countTokens(prompt, tokenizer);
+  const maxTokens = contextWindow - promptTokens - TOKENS_SAFETY_MARGIN;
 
-  const temperature = 0.5;
   const options = {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${bearerToken}`,
-    },
+    headers: bearerHeaders(bearerToken),
     body: JSON.stringify({
       model,
       prompt,
-      temperature,
-      max_tokens: MAX_TOKENS - promptTokens - TOKENS_SAFETY_MARGIN,
+      max_tokens: maxTokens,
       stream: true,
-      stop: "END_OF_STREAM",
+      ...upstreamSamplingParams(params, modelConfig, maxTokens),
     }),
     signal,
   };
-  const response = await fetchUpstreamWithRetry(apiUrl, options, signal);
+  const response = await fetchUpstreamWithRetry(modelConfig.provider, `${baseUrl}/completions`, options, signal);
 
   if (!response.ok) {
-    throw await upstreamHttpError(response);
+    throw await upstreamHttpError(response, providerAdapters.openai);
   }
   if (!response.body) {
     throw new Error("No response body");
   }
 
   const reader = response.body.getReader();
+  let completion = "";
+  const logprobs: LogProbContent[] = [];
+  let finishReason: string | null = null;
   try {
     const doubleNewlineReader = new DoubleNewlineReader(reader);
-    let completion = "";
     while (true) {
       const { done, value: dataString } = await doubleNewlineReader.readUntilDoubleNewline();
       if (done) {
@@ -506,94 +3444,594 @@ async function streamInstructCompletion(onChunk: (content: string) => void, mess
       for (let i = 0; i < dataArray.length; i++) {
         const data = dataArray[i];
         const token = data.choices[0].text;
-        onChunk(token);
+        if (data.choices[0].finish_reason) {
+          finishReason = data.choices[0].finish_reason;
+        }
+        const chunkLogprobs = data.choices[0].logprobs ? toLogProbContent(data.choices[0].logprobs) : undefined;
+        onChunk(token, chunkLogprobs);
         completion += token;
+        if (chunkLogprobs) logprobs.push(...chunkLogprobs);
+      }
+    }
+    logger.info("completion", { model: modelConfig.model, provider: modelConfig.provider, completion: redactContent(completion.trim()) });
+  } catch (error) {
+    await reader.cancel();
+    throw error;
+  }
+  await reader.cancel();
+  const completionTokens = countTokens(completion, tokenizer);
+  return {
+    completion,
+    finishReason,
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    ...(logprobs.length > 0 ? { logprobs } : {}),
+  };
+}
+
+async function postGenerateChatCompletionStreaming(ctx: RequestContext, format: StreamFormat, res: http.ServerResponse, reqBody: string) {
+  const ac = new AbortController();
+  let heartbeat: NodeJS.Timeout | undefined;
+  let releaseStreamSlot: (() => void) | undefined;
+  // Set for resumable requests, which outlive this connection.
+  let stream: ResumableStream | undefined;
+  // Billed if the request fails or is aborted before it's billed in full.
+  let partial: PartialCompletion | undefined;
+  res.on("close", () => {
+    if (stream) return;
+    clearInterval(heartbeat);
+    ac.abort();
+  });
+  const send = (event: string, data: unknown) => stream ? stream.send(event, data) : writeSseEvent(res, event, data);
+  try {
+    const parsed = JSON.parse(reqBody);
+    const body = BodySchema.parse(parsed);
+    const caller = authenticate(ctx.authKey);
+    const preset = body.preset !== undefined ? getPreset(body.preset) : undefined;
+    const model = body.model ?? (preset?.model !== undefined ? resolveModel(preset.model) : undefined);
+    if (model === undefined) {
+      throw new HttpError(400, preset?.model !== undefined ? `Preset ${body.preset} refers to unknown model ${preset.model}` : "Validation error: model is required");
+    }
+    requireModelAccess(caller?.user, model);
+    const routes = getModelRoutes(model);
+    const modelConfig = routes[0]!;
+    const systemPrompt = body.systemPrompt ?? preset?.systemPrompt;
+    const params = mergeSamplingParams(preset ?? {}, body);
+    const tools = toolRegistry.definitions(body.tools ?? []);
+    if (tools.length > 0) {
+      requireToolCalling(model, modelConfig);
+    }
+    requireLogprobs(model, modelConfig, params);
+    const responseFormat = body.response_format?.type === "text" ? undefined : body.response_format;
+    if (responseFormat) {
+      requireJsonOutput(model, modelConfig);
+    }
+    if (body.mode === "continue" && (tools.length > 0 || responseFormat)) {
+      throw new HttpError(400, "Validation error: continue can't be combined with tools or response_format");
+    }
+    if (body.branchFrom !== undefined && (body.conversationId === undefined || body.mode !== undefined)) {
+      throw new HttpError(400, "Validation error: branchFrom needs a conversationId and no mode");
+    }
+    if (body.resumable && format !== 'events') {
+      throw new HttpError(400, "Resumable streams need ?format=events");
+    }
+    if (body.collection !== undefined) {
+      requireRetrieval(model, modelConfig);
+    }
+    enforceQuotas(caller);
+    const client = clientKey(caller, ctx.clientIp);
+    requestRateLimiter.take(client);
+    releaseStreamSlot = acquireStreamSlot(client);
+    const collection = body.collection !== undefined ? await collectionStore.get(body.collection, requireUser(caller).id) : undefined;
+    const stored = body.conversationId ? activeMessages((await conversationStore.get(body.conversationId, requireUser(caller).id)).messages) : [];
+    // What gets stored along with the reply.
+    let newMessages = body.messages;
+    let branchFrom = body.branchFrom;
+    if (body.mode !== undefined && [...stored, ...body.messages].at(-1)?.party !== "bot") {
+      throw new HttpError(400, `Validation error: there's no bot reply to ${body.mode}`);
+    }
+    if (body.mode === "regenerate") {
+      // A stored reply is kept as an alternative to the new one.
+      if (body.messages.length > 0) newMessages = body.messages.slice(0, -1);
+      else branchFrom = stored.length - 1;
+    }
+    if (branchFrom !== undefined) {
+      const replaced = stored[branchFrom];
+      const party = newMessages[0]?.party ?? "bot";
+      if (replaced?.party !== party) {
+        throw new HttpError(400, `Validation error: branchFrom must point at a stored ${party} message`);
+      }
+    }
+    const history = [...stored.slice(0, branchFrom), ...newMessages];
+    requireVision(model, modelConfig, history.reduce((n, m) => n + (m.images?.length ?? 0), 0));
+    // Older turns are trimmed to the model's context window when the request is built.
+    const messages = await moderateMessages(await resolveImages(history, caller?.user.id ?? null), { caller, signal: ac.signal });
+    while (messages[0]?.party === "bot") messages.shift();
+    const lastHumanMessage = messages.findLast((m) => m.party === "human");
+
+    if (!lastHumanMessage) {
+      throw new HttpError(400, "Validation error: no human message found");
+    }
+
+    logger.info("generate", { model, format, prompt: redactContent(lastHumanMessage.text) });
+
+    const sources = collection ? await retrieveSources(collection, lastHumanMessage.text, ac.signal) : [];
+
+    // Server-side tools can return something different each time, and
+    // collections change as documents come and go, so those requests always
+    // go upstream. So do regenerated and continued replies.
+    const cacheKey = tools.length > 0 || collection || body.mode !== undefined ? undefined : responseCacheKey({
+      model,
+      chatMessages: toChatMessages(messages, modelConfig.systemMessage, systemPrompt),
+      params,
+      responseFormat,
+      cache: body.cache,
+    });
+    const cached = cacheKey !== undefined ? await responseCache.get(cacheKey) : undefined;
+    res.setHeader("X-Cache", cacheKey === undefined ? "BYPASS" : cached ? "HIT" : "MISS");
+    res.setHeader("Transfer-Encoding", "chunked");
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+
+    if (body.resumable) {
+      stream = new ResumableStream(caller?.user.id ?? null, ac);
+      res.setHeader("X-Stream-Id", stream.id);
+    }
+    if (format === 'events') {
+      res.flushHeaders();
+      stream?.attach(res, 0);
+      heartbeat = setInterval(() => stream ? stream.heartbeat() : writeSseEvent(res, "heartbeat", {}), HEARTBEAT_INTERVAL_MS);
+      if (collection) send("sources", { sources });
+    }
+
+    const recorder = recordChunks(guardOutput(format === 'events'
+      ? (content, logprobs) => send("delta", logprobs ? { content, logprobs } : { content })
+      : (content) => res.write(content)));
+    const onChunk = recorder.onChunk;
+    const onToolEvent: ToolEventHandler = (event, data) => {
+      if (format === 'events') send(event, data);
+    };
+    // Bare-text streams only carry the answer.
+    const completionOptions: ChatCompletionOptions = {
+      ...(format === 'events' ? {
+        onReasoning: (content: string) => send("reasoning", { content }),
+        onProgress: (elapsedMs: number) => send("progress", { elapsed_ms: elapsedMs }),
+      } : {}),
+      ...(responseFormat ? { responseFormat } : {}),
+      ...(sources.length > 0 ? { sources } : {}),
+      ...(body.mode === "continue" ? { continueReply: true } : {}),
+    };
+    const tracked = (onChunk: ChunkHandler): ChunkHandler => (content, logprobs) => {
+      partial ??= { caller, model, modelConfig, chatMessages: toChatMessages(messages, modelConfig.systemMessage, systemPrompt), completion: "" };
+      partial.completion += content;
+      onChunk(content, logprobs);
+    };
+    const complete = (extraMessages: ChatMessage[], onChunk: ChunkHandler) => tools.length > 0
+      ? completeWithTools(routes, [...toChatMessages(messages, modelConfig.systemMessage, systemPrompt), ...extraMessages], params, tools, tracked(onChunk), onToolEvent, ac.signal, completionOptions)
+      : completeWithFailover(routes, tracked(onChunk), ac.signal, (route, onRouteChunk) =>
+        route.apiType === 'chat'
+          ? streamChatCompletion(onRouteChunk, [...toChatMessages(messages, route.systemMessage, systemPrompt), ...extraMessages], route, params, ac.signal, completionOptions)
+          : streamInstructCompletion(onRouteChunk, messages, systemPrompt, route, params, ac.signal, body.mode === "continue")
+      );
+    let result: CompletionResult;
+    if (cached) {
+      result = await replayCachedResponse(cached, onChunk, completionOptions.onReasoning);
+    } else if (responseFormat) {
+      result = await completeJson(responseFormat, (repairMessages) => complete(repairMessages, () => {})).catch(async (error: unknown) => {
+        if (error instanceof JsonOutputError) {
+          partial = undefined;
+          await usageLedger.record(caller, model, modelConfig.price, error.usage);
+        }
+        throw error;
+      });
+      onChunk(result.completion, result.logprobs);
+    } else {
+      result = await complete([], onChunk);
+    }
+    clearInterval(heartbeat);
+    partial = undefined;
+    // Cache hits cost nothing upstream, so they aren't billed.
+    if (!cached) {
+      await usageLedger.record(caller, model, modelConfig.price, result.usage);
+      if (cacheKey !== undefined) await responseCache.set(cacheKey, recorder.chunks, result);
+    }
+    if (body.conversationId) {
+      const owner = requireUser(caller).id;
+      const reply: Message = { party: "bot", text: result.completion };
+      if (body.mode === "continue") {
+        await conversationStore.append(body.conversationId, owner, newMessages, model, result.completion);
+      } else if (branchFrom !== undefined) {
+        await conversationStore.branch(body.conversationId, owner, branchFrom, [...newMessages, reply], model);
+      } else {
+        await conversationStore.append(body.conversationId, owner, [...newMessages, reply], model);
+      }
+    }
+    if (format === 'events') {
+      send("finish", { finish_reason: result.finishReason ?? "stop", usage: result.usage });
+    }
+    if (stream) {
+      stream.end();
+    } else {
+      res.end();
+    }
+  } catch (error) {
+    clearInterval(heartbeat);
+    await recordPartialUsage(partial);
+    if (ac.signal.aborted) return;
+    logRequestError(error);
+    try {
+      if (!res.headersSent) {
+        const errorBody = JSON.stringify({
+          success: false,
+          error: { message: (error as Error).message },
+        });
+        res.statusCode = errorStatus(error);
+        setRetryAfter(res, error);
+        res.removeHeader("Transfer-Encoding");
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Content-Length", Buffer.byteLength(errorBody));
+        res.write(errorBody);
+      } else if (stream) {
+        stream.send("error", { status: errorStatus(error), message: (error as Error).message });
+        stream.end();
+      } else if (format === 'events' && !res.writableEnded) {
+        writeSseEvent(res, "error", { status: errorStatus(error), message: (error as Error).message });
+      }
+    } catch (e) {
+      logger.error("failed to send the error response", { error: e });
+      // do nothing
+    } finally {
+      if (!res.writableEnded) {
+        res.end();
       }
     }
-    console.log("completion", completion.trim());
-  } catch (error) {
-    await reader.cancel();
-    throw error;
+  } finally {
+    releaseStreamSlot?.();
   }
-  await reader.cancel();
+};
+
+function openAIContentToText(content: z.infer<typeof OpenAIMessageSchema>["content"]): string {
+  return chatContentText(content);
+}
+
+// Image parts are only meaningful in user messages; elsewhere just the text is kept.
+function openAIMessagesToChatMessages(messages: z.infer<typeof OpenAIMessageSchema>[]): ChatMessage[] {
+  return messages.map((m) => ({
+    role: m.role === "developer" ? "system" : m.role,
+    content: m.role === "user" ? m.content : openAIContentToText(m.content),
+    ...(m.tool_calls ? { tool_calls: m.tool_calls } : {}),
+    ...(m.tool_call_id !== undefined ? { tool_call_id: m.tool_call_id } : {}),
+  }));
+}
+
+// The instruct model only understands our Human/Bot transcript; system
+// messages become its preamble instead (see openAISystemPrompt).
+function openAIMessagesToMessages(messages: z.infer<typeof OpenAIMessageSchema>[]): Message[] {
+  return messages.flatMap((m): Message[] =>
+    m.role === "user" ? [{ party: "human", text: openAIContentToText(m.content) }] :
+    m.role === "assistant" ? [{ party: "bot", text: openAIContentToText(m.content) }] :
+    []
+  );
+}
+
+function openAISystemPrompt(messages: z.infer<typeof OpenAIMessageSchema>[]): string | undefined {
+  const system = messages.filter((m) => m.role === "system" || m.role === "developer");
+  return system.length > 0 ? system.map((m) => openAIContentToText(m.content)).join("\n\n") : undefined;
 }
 
-async function postGenerateChatCompletionStreaming(reqCookies: Cookies, res: http.ServerResponse, reqBody: string) {
+function getBearerToken(authorization: string | undefined): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+}
+
+async function postChatCompletions(ctx: RequestContext, res: http.ServerResponse, reqBody: string) {
   const ac = new AbortController();
   res.on("close", () => ac.abort());
+  let streamStarted = false;
+  let releaseStreamSlot: (() => void) | undefined;
+  // Billed if the request fails or is aborted before it's billed in full.
+  let partial: PartialCompletion | undefined;
   try {
-    const cookies = CookiesSchema.parse(reqCookies);
     const parsed = JSON.parse(reqBody);
-    const body = BodySchema.parse(parsed);
-    const authKey = cookies["__Secure-authKey"];
+    const body = OpenAIBodySchema.parse(parsed);
     const model = body.model;
-    const messages = body.messages.slice(-SLIDING_WINDOW_MESSAGES);
-    while (messages[0]?.party === "bot") messages.shift();
-    const lastHumanMessage = messages.findLast((m) => m.party === "human");
-
-    if (!lastHumanMessage) {
-      throw new HttpError(400, "Validation error: no human message found");
+    const caller = authenticate(ctx.authKey);
+    requireModelAccess(caller?.user, model);
+    const routes = getModelRoutes(model);
+    const modelConfig = routes[0]!;
+    requireVision(model, modelConfig, openAIImageCount(body.messages));
+    if (body.tools?.length) {
+      requireToolCalling(model, modelConfig);
     }
+    requireLogprobs(model, modelConfig, body);
+    const responseFormat = body.response_format?.type === "text" ? undefined : body.response_format;
+    if (responseFormat) {
+      requireJsonOutput(model, modelConfig);
+    }
+    enforceQuotas(caller);
+    const client = clientKey(caller, ctx.clientIp);
+    requestRateLimiter.take(client);
+    releaseStreamSlot = acquireStreamSlot(client);
+    const stream = body.stream ?? false;
 
-    console.log("model", model);
-    console.log("human-prompt", lastHumanMessage.text);
+    logger.info("chat completion", { model, stream });
+    const id = `chatcmpl-${crypto.randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
 
-    const modelConfig = getModelConfig(model);
+    const writeEvent = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+    const chunkObject = (delta: object, finish_reason: string | null, logprobs?: LogProbContent[]) => ({
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model,
+      choices: [{ index: 0, delta, ...(logprobs ? { logprobs: { content: logprobs, refusal: null } } : {}), finish_reason }],
+    });
+    const startStream = () => {
+      if (streamStarted) return;
+      streamStarted = true;
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      writeEvent(chunkObject({ role: "assistant", content: "" }, null));
+    };
+    const recorder = recordChunks(guardOutput((content, logprobs) => {
+      if (!stream || !content) return;
+      startStream();
+      writeEvent(chunkObject({ content }, null, logprobs));
+    }));
+    const onChunk = recorder.onChunk;
 
-    res.setHeader("Transfer-Encoding", "chunked");
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
+    const openAIMessages = await moderateOpenAIMessages(body.messages, { caller, signal: ac.signal });
+    const chatMessages = openAIMessagesToChatMessages(openAIMessages);
+    const messages = openAIMessagesToMessages(openAIMessages);
+    if (modelConfig.apiType === 'instruct' && messages.at(-1)?.party !== "human") {
+      throw new HttpError(400, "Validation error: the last message must be from the user");
+    }
+    const params = { ...body, max_tokens: body.max_completion_tokens ?? body.max_tokens };
+    // Tool calls are answered by the client, so they aren't cached either.
+    const cacheKey = body.tools?.length ? undefined : responseCacheKey({ model, chatMessages, params, responseFormat, cache: body.cache });
+    const cached = cacheKey !== undefined ? await responseCache.get(cacheKey) : undefined;
+    res.setHeader("X-Cache", cacheKey === undefined ? "BYPASS" : cached ? "HIT" : "MISS");
+    // Client-defined tools are forwarded as-is; running them is up to the client.
+    const completionOptions: ChatCompletionOptions = {
+      ...(body.tools?.length ? { tools: { tools: body.tools, ...(body.tool_choice !== undefined ? { tool_choice: body.tool_choice } : {}) } } : {}),
+      ...(responseFormat ? { responseFormat } : {}),
+      // Reasoning goes out as DeepSeek-style `reasoning_content` deltas, and
+      // SSE comments keep the connection alive for non-streaming models.
+      ...(stream ? {
+        onReasoning: (content: string) => {
+          startStream();
+          writeEvent(chunkObject({ reasoning_content: content }, null));
+        },
+        onProgress: () => {
+          startStream();
+          res.write(": keep-alive\n\n");
+        },
+      } : {}),
+    };
+    const tracked = (onChunk: ChunkHandler): ChunkHandler => (content, logprobs) => {
+      partial ??= { caller, model, modelConfig, chatMessages, completion: "" };
+      partial.completion += content;
+      onChunk(content, logprobs);
+    };
+    const complete = (extraMessages: ChatMessage[], onChunk: ChunkHandler) => completeWithFailover(routes, tracked(onChunk), ac.signal, (route, onRouteChunk) =>
+      route.apiType === 'chat'
+        ? streamChatCompletion(onRouteChunk, [...chatMessages, ...extraMessages], route, params, ac.signal, completionOptions)
+        : streamInstructCompletion(onRouteChunk, messages, openAISystemPrompt(openAIMessages), route, params, ac.signal)
+    );
+    let result: CompletionResult;
+    if (cached) {
+      result = await replayCachedResponse(cached, onChunk, completionOptions.onReasoning);
+    } else if (responseFormat) {
+      result = await completeJson(responseFormat, (repairMessages) => complete(repairMessages, () => {})).catch(async (error: unknown) => {
+        if (error instanceof JsonOutputError) {
+          partial = undefined;
+          await usageLedger.record(caller, model, modelConfig.price, error.usage);
+        }
+        throw error;
+      });
+      onChunk(result.completion, result.logprobs);
+    } else {
+      result = await complete([], onChunk);
+    }
+    partial = undefined;
+    if (!cached) {
+      await usageLedger.record(caller, model, modelConfig.price, result.usage);
+      if (cacheKey !== undefined) await responseCache.set(cacheKey, recorder.chunks, result);
+    }
+    const finishReason = result.finishReason ?? "stop";
 
-    const onChunk = (content: string) => res.write(content);
-    const { apiType } = modelConfig;
-    if (apiType === 'chat') {
-      await streamChatCompletion(onChunk, authKey, messages, model, modelConfig, ac.signal);
-    } else if (apiType === 'instruct') {
-      await streamInstructCompletion(onChunk, messages, model, modelConfig, ac.signal);
+    if (stream) {
+      startStream();
+      if (result.toolCalls) {
+        writeEvent(chunkObject({ tool_calls: result.toolCalls.map((toolCall, index) => ({ index, ...toolCall })) }, null));
+      }
+      writeEvent(chunkObject({}, finishReason));
+      if (body.stream_options?.include_usage) {
+        writeEvent({ id, object: "chat.completion.chunk", created, model, choices: [], usage: result.usage });
+      }
+      res.end("data: [DONE]\n\n");
+      return;
     }
-    res.end();
+
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({
+      id,
+      object: "chat.completion",
+      created,
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: "assistant",
+          content: result.toolCalls ? result.completion || null : result.completion,
+          ...(result.reasoning ? { reasoning_content: result.reasoning } : {}),
+          ...(result.toolCalls ? { tool_calls: result.toolCalls } : {}),
+        },
+        ...(body.logprobs ? { logprobs: { content: result.logprobs ?? [], refusal: null } satisfies Logprobs } : {}),
+        finish_reason: finishReason,
+      }],
+      usage: result.usage,
+    }));
   } catch (error) {
+    await recordPartialUsage(partial);
     if (ac.signal.aborted) return;
-    console.error("error", error);
+    logRequestError(error);
     try {
-      if (!res.headersSent) {
-        const errorBody = JSON.stringify({
-          success: false,
-          error: { message: (error as Error).message },
-        });
-        res.statusCode =
-          error instanceof HttpError ? error.status :
-          error instanceof z.ZodError || error instanceof SyntaxError ? 400 :
-          502;
-        res.removeHeader("Transfer-Encoding");
+      const status = errorStatus(error);
+      const errorObject = {
+        message: (error as Error).message,
+        type: status === 400 ? "invalid_request_error" : status === 403 ? "permission_error" : status === 429 ? "rate_limit_error" : "api_error",
+        code: null,
+      };
+      if (streamStarted) {
+        // Clients stop reading at [DONE], so it still ends a failed stream.
+        res.write(`data: ${JSON.stringify({ error: errorObject })}\n\n`);
+        res.write("data: [DONE]\n\n");
+      } else if (!res.headersSent) {
+        const errorBody = JSON.stringify({ error: errorObject });
+        res.statusCode = status;
+        setRetryAfter(res, error);
         res.setHeader("Content-Type", "application/json");
         res.setHeader("Content-Length", Buffer.byteLength(errorBody));
         res.write(errorBody);
-      } else if (!res.writableEnded) {
-        res.end();
       }
     } catch (e) {
-      console.error("e", e);
+      logger.error("failed to send the error response", { error: e });
       // do nothing
     } finally {
       if (!res.writableEnded) {
         res.end();
       }
     }
+  } finally {
+    releaseStreamSlot?.();
   }
-};
+}
 
-function postIsAuthed(reqCookies: Cookies, res: http.ServerResponse) {
+interface CompareResult {
+  model: Model;
+  status: "ok" | "error";
+  latency_ms: number;
+  ttft_ms: number | null;
+  finish_reason?: string;
+  usage?: Usage;
+  error?: { status: number; message: string };
+}
+
+// Streams one transcript to several models at once. Every event carries the
+// model it belongs to, and each model has its own auth checks, failover and
+// error handling, so one failing model doesn't end the others.
+async function postCompare(ctx: RequestContext, res: http.ServerResponse, reqBody: string) {
+  const ac = new AbortController();
+  let heartbeat: NodeJS.Timeout | undefined;
+  let releaseStreamSlot: (() => void) | undefined;
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    ac.abort();
+  });
+  try {
+    const body = CompareBodySchema.parse(JSON.parse(reqBody));
+    const caller = authenticate(ctx.authKey);
+    enforceQuotas(caller);
+    const client = clientKey(caller, ctx.clientIp);
+    requestRateLimiter.take(client);
+    releaseStreamSlot = acquireStreamSlot(client);
+    const messages = await moderateMessages(await resolveImages(body.messages, caller?.user.id ?? null), { caller, signal: ac.signal });
+    while (messages[0]?.party === "bot") messages.shift();
+    if (!messages.some((m) => m.party === "human")) {
+      throw new HttpError(400, "Validation error: no human message found");
+    }
+    const imageCount = messages.reduce((n, m) => n + (m.images?.length ?? 0), 0);
+
+    logger.info("compare", { models: body.models, prompt: redactContent(messages.findLast((m) => m.party === "human")!.text) });
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+    heartbeat = setInterval(() => writeSseEvent(res, "heartbeat", {}), HEARTBEAT_INTERVAL_MS);
+
+    const runModel = async (model: Model): Promise<CompareResult> => {
+      const startedAt = Date.now();
+      let firstTokenAt: number | undefined;
+      const timing = () => ({
+        latency_ms: Date.now() - startedAt,
+        ttft_ms: firstTokenAt !== undefined ? firstTokenAt - startedAt : null,
+      });
+      let partial: PartialCompletion | undefined;
+      try {
+        requireModelAccess(caller?.user, model);
+        const routes = getModelRoutes(model);
+        const modelConfig = routes[0]!;
+        requireVision(model, modelConfig, imageCount);
+        requireLogprobs(model, modelConfig, body);
+        const guarded = guardOutput((content, logprobs) => {
+          firstTokenAt ??= Date.now();
+          writeSseEvent(res, "delta", logprobs ? { model, content, logprobs } : { model, content });
+        });
+        const onChunk: ChunkHandler = (content, logprobs) => {
+          partial ??= { caller, model, modelConfig, chatMessages: toChatMessages(messages, modelConfig.systemMessage, body.systemPrompt), completion: "" };
+          partial.completion += content;
+          guarded(content, logprobs);
+        };
+        const result = await completeWithFailover(routes, onChunk, ac.signal, (route, onRouteChunk) =>
+          route.apiType === 'chat'
+            ? streamChatCompletion(onRouteChunk, toChatMessages(messages, route.systemMessage, body.systemPrompt), route, body, ac.signal)
+            : streamInstructCompletion(onRouteChunk, messages, body.systemPrompt, route, body, ac.signal)
+        );
+        partial = undefined;
+        await usageLedger.record(caller, model, modelConfig.price, result.usage);
+        const summary: CompareResult = { model, status: "ok", ...timing(), finish_reason: result.finishReason ?? "stop", usage: result.usage };
+        writeSseEvent(res, "finish", summary);
+        return summary;
+      } catch (error) {
+        await recordPartialUsage(partial);
+        if (!ac.signal.aborted) logRequestError(error, { model });
+        const summary: CompareResult = { model, status: "error", ...timing(), error: { status: errorStatus(error), message: (error as Error).message } };
+        if (!res.writableEnded) writeSseEvent(res, "error", { model, ...summary.error });
+        return summary;
+      }
+    };
+
+    const results = await Promise.all(body.models.map(runModel));
+    clearInterval(heartbeat);
+    if (ac.signal.aborted) return;
+    writeSseEvent(res, "done", { results });
+    res.end();
+  } catch (error) {
+    clearInterval(heartbeat);
+    if (ac.signal.aborted) return;
+    logRequestError(error);
+    if (!res.headersSent) {
+      const errorBody = JSON.stringify({
+        success: false,
+        error: { message: (error as Error).message },
+      });
+      res.statusCode = errorStatus(error);
+      setRetryAfter(res, error);
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Length", Buffer.byteLength(errorBody));
+      res.end(errorBody);
+    } else if (!res.writableEnded) {
+      res.end();
+    }
+  } finally {
+    releaseStreamSlot?.();
+  }
+}
+
+function postIsAuthed(ctx: RequestContext, res: http.ServerResponse) {
   try {
-    const cookies = CookiesSchema.parse(reqCookies);
-    const authKey = cookies["__Secure-authKey"];
+    const user = authenticate(ctx.authKey)?.user;
     res.write(JSON.stringify({
       success: true,
-      isAuthed: timeSafeCompare(authKey ?? "", secrets.AUTH_KEY ?? ""),
+      isAuthed: user !== undefined,
+      user: user ? { id: user.id, name: user.name, admin: user.admin } : null,
+      models: listModels(user),
     }));
   } catch (error) {
-    console.error("error", error);
+    logRequestError(error);
     try {
       res.setHeader("Content-Type", "application/json");
       res.write(JSON.stringify({
@@ -601,7 +4039,7 @@ function postIsAuthed(reqCookies: Cookies, res: http.ServerResponse) {
         error: { message: (error as Error).message },
       }));
     } catch (e) {
-      console.error("e", e);
+      logger.error("failed to send the error response", { error: e });
       // do nothing
     }
   } finally {
@@ -609,64 +4047,528 @@ function postIsAuthed(reqCookies: Cookies, res: http.ServerResponse) {
   }
 }
 
+async function respondJson(res: http.ServerResponse, handler: () => Promise<object>) {
+  res.setHeader("Content-Type", "application/json");
+  try {
+    const result = await handler();
+    res.end(JSON.stringify({ success: true, ...result }));
+  } catch (error) {
+    logRequestError(error);
+    res.statusCode = errorStatus(error);
+    setRetryAfter(res, error);
+    res.end(JSON.stringify({
+      success: false,
+      error: { message: (error as Error).message },
+    }));
+  }
+}
+
+function handleConversations(ctx: RequestContext, method: string, id: string | undefined, res: http.ServerResponse, reqBody: string) {
+  return respondJson(res, async () => {
+    const owner = requireUser(authenticate(ctx.authKey)).id;
+    if (id === undefined && method === "GET") {
+      return { conversations: await conversationStore.list(owner) };
+    }
+    if (id === undefined && method === "POST") {
+      const body = CreateConversationSchema.parse(reqBody ? JSON.parse(reqBody) : {});
+      return { conversation: await conversationStore.create(owner, body.title, body.model ?? null, body.messages ?? []) };
+    }
+    if (id !== undefined && method === "GET") {
+      return { conversation: await conversationStore.get(id, owner) };
+    }
+    if (id !== undefined && method === "PATCH") {
+      const body = UpdateConversationSchema.parse(JSON.parse(reqBody));
+      if (body.title !== undefined) {
+        await conversationStore.rename(id, owner, body.title);
+      }
+      if (body.branch !== undefined) {
+        await conversationStore.selectBranch(id, owner, body.branch.index, body.branch.alternative);
+      }
+      return { conversation: await conversationStore.get(id, owner) };
+    }
+    if (id !== undefined && method === "DELETE") {
+      await conversationStore.delete(id, owner);
+      return {};
+    }
+    throw new HttpError(405, "Method not allowed");
+  });
+}
+
+function handleFiles(ctx: RequestContext, method: string, id: string | undefined, res: http.ServerResponse, reqBody: string) {
+  return respondJson(res, async () => {
+    const caller = authenticate(ctx.authKey);
+    const owner = requireUser(caller).id;
+    if (id === undefined && method === "POST") {
+      requestRateLimiter.take(clientKey(caller, ctx.clientIp));
+      const body = UploadFileSchema.parse(JSON.parse(reqBody));
+      return { file: publicFile(await fileStore.create(owner, body.data)) };
+    }
+    if (id !== undefined && method === "GET") {
+      return { file: publicFile(await fileStore.get(id, owner)) };
+    }
+    if (id !== undefined && method === "DELETE") {
+      await fileStore.delete(id, owner);
+      return {};
+    }
+    throw new HttpError(405, "Method not allowed");
+  });
+}
+
+// /collections[/:id[/documents[/:documentId]|/search]]
+function handleCollections(ctx: RequestContext, method: string, segments: string[], searchParams: URLSearchParams, res: http.ServerResponse, reqBody: string) {
+  return respondJson(res, async () => {
+    const caller = authenticate(ctx.authKey);
+    const owner = requireUser(caller).id;
+    const [id, sub, documentId] = segments;
+    if (id === undefined && method === "GET") {
+      return { collections: (await collectionStore.list(owner)).map(publicCollection) };
+    }
+    if (id === undefined && method === "POST") {
+      const body = CreateCollectionSchema.parse(JSON.parse(reqBody));
+      return { collection: publicCollection(await collectionStore.create(owner, body.name)) };
+    }
+    if (id !== undefined && sub === undefined && method === "GET") {
+      return { collection: publicCollection(await collectionStore.get(id, owner)) };
+    }
+    if (id !== undefined && sub === undefined && method === "DELETE") {
+      await collectionStore.delete(id, owner);
+      return {};
+    }
+    if (id !== undefined && sub === "documents" && documentId === undefined && method === "POST") {
+      requestRateLimiter.take(clientKey(caller, ctx.clientIp));
+      const body = AddDocumentSchema.parse(JSON.parse(reqBody));
+      return { document: publicDocument(await collectionStore.addDocument(id, owner, body.name, body.type, body.text)) };
+    }
+    if (id !== undefined && sub === "documents" && documentId !== undefined && method === "DELETE") {
+      await collectionStore.deleteDocument(id, owner, documentId);
+      return {};
+    }
+    if (id !== undefined && sub === "search" && method === "GET") {
+      const query = searchParams.get("q")?.trim();
+      if (!query) {
+        throw new HttpError(400, "Missing q parameter");
+      }
+      const collection = await collectionStore.get(id, owner);
+      return { sources: await retrieveSources(collection, query, AbortSignal.timeout(EMBEDDING_TIMEOUT_MS)) };
+    }
+    throw new HttpError(405, "Method not allowed");
+  });
+}
+
+// /admin/config[/reload]
+function handleAdminConfig(ctx: RequestContext, method: string, segments: string[], res: http.ServerResponse) {
+  return respondJson(res, async () => {
+    requireAdmin(authenticate(ctx.authKey));
+    const [action] = segments;
+    if (action === undefined && method === "GET") {
+      return {
+        server: { ...serverSettings.config, port: Number(port), httpPort: Number(httpPort) },
+        files: { models: MODELS_FILE, presets: PRESETS_FILE, moderation: MODERATION_FILE, server: SERVER_FILE },
+        activeStreams: clientStreamLimiter.total(),
+      };
+    }
+    // Same as SIGHUP. Files that fail to load keep their previous version;
+    // the reason is in the log.
+    if (action === "reload" && segments.length === 1 && method === "POST") {
+      return { reloaded: reloadAll("admin API") };
+    }
+    throw new HttpError(405, "Method not allowed");
+  });
+}
+
+// /admin/users[/:userId[/keys[/:keyId]]]
+function handleAdminUsers(ctx: RequestContext, method: string, segments: string[], res: http.ServerResponse, reqBody: string) {
+  return respondJson(res, async () => {
+    requireAdmin(authenticate(ctx.authKey));
+    const [userId, keys, keyId] = segments;
+    if (userId === undefined && method === "GET") {
+      return { users: [...userStore.users.values()].map(publicUser) };
+    }
+    if (userId === undefined && method === "POST") {
+      const body = CreateUserSchema.parse(JSON.parse(reqBody));
+      return { user: publicUser(await userStore.create({ ...body, admin: body.admin ?? false })) };
+    }
+    if (userId !== undefined && keys === undefined && method === "GET") {
+      return { user: publicUser(userStore.get(userId)) };
+    }
+    if (userId !== undefined && keys === undefined && method === "PATCH") {
+      const body = UpdateUserSchema.parse(JSON.parse(reqBody));
+      const changes = Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined));
+      return { user: publicUser(await userStore.update(userId, changes)) };
+    }
+    if (userId !== undefined && keys === undefined && method === "DELETE") {
+      await userStore.delete(userId);
+      await conversationStore.deleteOwner(userId);
+      await collectionStore.deleteOwner(userId);
+      await fileStore.deleteOwner(userId);
+      return {};
+    }
+    if (userId !== undefined && keys === "keys" && keyId === undefined && method === "POST") {
+      const body = CreateApiKeySchema.parse(reqBody ? JSON.parse(reqBody) : {});
+      const { apiKey: { hash: _hash, ...apiKey }, key } = await userStore.createKey(userId, body.label ?? "", body.quota);
+      // The plaintext key is only ever returned here; we store its hash.
+      return { apiKey, key };
+    }
+    if (userId !== undefined && keys === "keys" && keyId !== undefined && method === "DELETE") {
+      await userStore.revokeKey(userId, keyId);
+      return {};
+    }
+    throw new HttpError(405, "Method not allowed");
+  });
+}
+
+function getModels(ctx: RequestContext, res: http.ServerResponse) {
+  return respondJson(res, async () => {
+    const user = authenticate(ctx.authKey)?.user;
+    return {
+      models: listModels(user).map((model) => {
+        const settings = modelRegistry.models[model]!;
+        return {
+          id: model,
+          aliases: settings.aliases,
+          provider: settings.provider,
+          apiType: settings.apiType,
+          authed: settings.authed,
+          price: settings.price,
+        };
+      }),
+    };
+  });
+}
+
+function getTools(res: http.ServerResponse) {
+  return respondJson(res, async () => ({ tools: toolRegistry.list() }));
+}
+
+function getPresets(res: http.ServerResponse) {
+  return respondJson(res, async () => ({
+    presets: Object.entries(presets).map(([id, preset]) => ({ id, ...preset })),
+  }));
+}
+
+// Prometheus text format, for admins only.
+function getMetrics(ctx: RequestContext, res: http.ServerResponse) {
+  try {
+    requireAdmin(authenticate(ctx.authKey));
+  } catch (error) {
+    return respondJson(res, () => Promise.reject(error));
+  }
+  res.setHeader("Content-Type", "text/plain; version=0.0.4");
+  res.end(renderMetrics());
+}
+
+// Reconnects to a resumable stream. Events after the Last-Event-ID header
+// (sent by EventSource on its own), or after ?offset=n, are replayed first.
+function getStream(ctx: RequestContext, id: string, lastEventId: string | string[] | undefined, searchParams: URLSearchParams, res: http.ServerResponse) {
+  let stream: ResumableStream;
+  let after: number;
+  try {
+    stream = getResumableStream(id, authenticate(ctx.authKey)?.user.id ?? null);
+    after = Number((typeof lastEventId === "string" ? lastEventId : searchParams.get("offset")) ?? 0);
+    if (!Number.isInteger(after) || after < 0) {
+      throw new HttpError(400, "Last-Event-ID and offset must be non-negative integers");
+    }
+  } catch (error) {
+    return respondJson(res, () => Promise.reject(error));
+  }
+  res.setHeader("X-Stream-Id", stream.id);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+  stream.attach(res, after);
+}
+
+function deleteStream(ctx: RequestContext, id: string, res: http.ServerResponse) {
+  return respondJson(res, async () => {
+    getResumableStream(id, authenticate(ctx.authKey)?.user.id ?? null).cancel("Cancelled by the client");
+    return {};
+  });
+}
+
+// OpenAI's model list shape, for SDKs pointed at /v1.
+function getOpenAIModels(ctx: RequestContext, res: http.ServerResponse) {
+  const user = authenticate(ctx.authKey)?.user;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({
+    object: "list",
+    data: listModels(user).map((model) => ({
+      id: model,
+      object: "model",
+      created: 0,
+      owned_by: modelRegistry.models[model]!.provider,
+    })),
+  }));
+}
+
+// Daily usage grouped by user and model. Users see their own usage; admins can
+// see everyone's or filter by userId.
+function getUsage(ctx: RequestContext, searchParams: URLSearchParams, res: http.ServerResponse) {
+  return respondJson(res, async () => {
+    const caller = authenticate(ctx.authKey);
+    const user = requireUser(caller);
+    const query = UsageQuerySchema.parse(Object.fromEntries(searchParams));
+    if (query.userId !== undefined && query.userId !== user.id && !user.admin) {
+      throw new HttpError(403, "Admin access required");
+    }
+    const userId = query.userId ?? (user.admin ? undefined : user.id);
+    const rows = new Map<string, { date: string; userId: string | null; model: string; requests: number; prompt_tokens: number; completion_tokens: number; cost: number }>();
+    for await (const record of usageLedger.readAll()) {
+      const date = record.timestamp.slice(0, 10);
+      if (query.from !== undefined && date < query.from) continue;
+      if (query.to !== undefined && date > query.to) continue;
+      if (userId !== undefined && record.userId !== userId) continue;
+      const key = JSON.stringify([date, record.userId, record.model]);
+      const row = rows.get(key) ?? { date, userId: record.userId, model: record.model, requests: 0, prompt_tokens: 0, completion_tokens: 0, cost: 0 };
+      row.requests += 1;
+      row.prompt_tokens += record.prompt_tokens;
+      row.completion_tokens += record.completion_tokens;
+      row.cost += record.cost;
+      rows.set(key, row);
+    }
+    const usage = [...rows.values()];
+    return {
+      usage,
+      totals: {
+        requests: usage.reduce((sum, row) => sum + row.requests, 0),
+        prompt_tokens: usage.reduce((sum, row) => sum + row.prompt_tokens, 0),
+        completion_tokens: usage.reduce((sum, row) => sum + row.completion_tokens, 0),
+        cost: usage.reduce((sum, row) => sum + row.cost, 0),
+      },
+      quota: {
+        user: quotaStatus(user.quota, (r) => r.userId === user.id),
+        ...(caller?.apiKey ? { apiKey: quotaStatus(caller.apiKey.quota, (r) => r.keyId === caller.apiKey?.id) } : {}),
+      },
+    };
+  });
+}
+
 const setCors = (req: http.IncomingMessage, res: http.ServerResponse) => {
-  if (origins.includes(req.headers.origin ?? "")) {
-    res.setHeader("Access-Control-Allow-Methods", "POST");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
-    res.setHeader("Access-Control-Allow-Origin", req.headers.origin ?? "");
+  const origin = req.headers.origin ?? "";
+  res.setHeader("Vary", "Origin");
+  if (serverSettings.corsOrigins.some((pattern) => pattern.test(origin))) {
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Request-Id, Last-Event-ID");
+    res.setHeader("Access-Control-Expose-Headers", "X-Request-Id, X-Cache, X-Stream-Id");
+    res.setHeader("Access-Control-Allow-Origin", origin);
     res.setHeader("Access-Control-Allow-Credentials", "true");
   }
 };
 
+function readBody(req: http.IncomingMessage, res: http.ServerResponse, onBody: (reqBody: string) => Promise<void>, maxBytes = MAX_REQUEST_BODY_BYTES) {
+  const reqBody: Buffer[] = [];
+  let bodyBytes = 0;
+  let rejected = false;
+  req.on("data", (chunk: Buffer) => {
+    if (rejected) return;
+    bodyBytes += chunk.length;
+    if (bodyBytes > maxBytes) {
+      rejected = true;
+      res.writeHead(413, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: false, error: { message: "Request body too large" } }));
+      req.destroy();
+      return;
+    }
+    reqBody.push(chunk);
+  });
+  // Body events don't inherit the request's async context on their own.
+  req.on("end", AsyncLocalStorage.bind(async () => {
+    if (rejected) return;
+    await onBody(Buffer.concat(reqBody).toString());
+  }));
+}
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Set on SIGTERM/SIGINT; requests arriving on kept-alive connections after
+// that are turned away.
+let shuttingDown = false;
+// Requests whose response hasn't closed yet. Shutdown waits for them, and for
+// resumable streams that keep generating after their connection is gone.
+let inFlightRequests = 0;
+
+// Every response gets an X-Request-Id, reusing the caller's when it sent a
+// sensible one, and every log line written while handling it carries the id.
 const requestListener = (req: http.IncomingMessage, res: http.ServerResponse) => {
-  if (req.url === "/robots.txt") {
+  const incomingId = req.headers["x-request-id"];
+  const requestId = typeof incomingId === "string" && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+  requestScope.run({ requestId }, () => {
+    const startedAt = performance.now();
+    const { pathname } = new URL(`http://localhost${req.url ?? "/"}`);
+    const route = metricRoute(pathname);
+    inFlightRequests++;
+    res.on("close", () => {
+      inFlightRequests--;
+      const status = res.writableFinished ? res.statusCode : 499;
+      metrics.httpRequests.inc({ route, method: req.method ?? "GET", status: String(status) });
+      logger.info("request", { method: req.method, route, status, duration_ms: Math.round(performance.now() - startedAt) });
+    });
+    if (shuttingDown) {
+      res.writeHead(503, { "Content-Type": "application/json", "Connection": "close", "Retry-After": "5" });
+      res.end(JSON.stringify({ success: false, error: { message: "Server is shutting down" } }));
+      return;
+    }
+    routeRequest(req, res);
+  });
+};
+
+const routeRequest = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { pathname, searchParams } = new URL(`http://localhost${req.url ?? "/"}`);
+  if (pathname === "/robots.txt") {
     res.writeHead(200, { "Content-Type": "text/plain" });
     res.end("User-agent: *\nDisallow: /\n");
   }
-  else if (req.url === "/") {
+  else if (pathname === "/") {
     res.writeHead(200, { "Content-Type": "text/plain" });
     res.write("OK");
     res.end();
   }
-  else if (req.method === "OPTIONS" && req.url === "/is-authed") {
+  else if (req.method === "OPTIONS" && pathname === "/is-authed") {
     setCors(req, res);
     res.end();
   }
-  else if (req.method === "OPTIONS" && req.url === "/generate-chat-completion-streaming") {
+  else if (req.method === "OPTIONS" && pathname === "/generate-chat-completion-streaming") {
     setCors(req, res);
     res.end();
   }
-  else if (req.method === "POST" && req.url === "/is-authed") {
+  else if (req.method === "POST" && pathname === "/is-authed") {
     setCors(req, res);
     res.setHeader("Content-Type", "application/json");
-    const reqCookies = req.headers.cookie ? parseCookie(req.headers.cookie) : {};
+    const ctx = getRequestContext(req);
     req.on("data", () => {});
-    req.on("end", () => {
-      postIsAuthed(reqCookies, res);
-    });
+    req.on("end", AsyncLocalStorage.bind(() => {
+      postIsAuthed(ctx, res);
+    }));
   }
-  else if (req.method === "POST" && req.url === "/generate-chat-completion-streaming") {
+  else if (req.method === "POST" && pathname === "/generate-chat-completion-streaming") {
     setCors(req, res);
-    const reqCookies = req.headers.cookie ? parseCookie(req.headers.cookie) : {};
-    const reqBody: Buffer[] = [];
-    let bodyBytes = 0;
-    let rejected = false;
-    req.on("data", (chunk: Buffer) => {
-      if (rejected) return;
-      bodyBytes += chunk.length;
-      if (bodyBytes > MAX_REQUEST_BODY_BYTES) {
-        rejected = true;
-        res.writeHead(413, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ success: false, error: { message: "Request body too large" } }));
-        req.destroy();
-        return;
-      }
-      reqBody.push(chunk);
-    });
-    req.on("end", async () => {
-      if (rejected) return;
-      await postGenerateChatCompletionStreaming(reqCookies, res, Buffer.concat(reqBody).toString());
-    });
+    const ctx = getRequestContext(req);
+    const format: StreamFormat = searchParams.get("format") === "events" ? 'events' : 'raw';
+    readBody(req, res, (reqBody) => postGenerateChatCompletionStreaming(ctx, format, res, reqBody), MAX_IMAGE_REQUEST_BODY_BYTES);
+  }
+  else if (req.method === "OPTIONS" && pathname === "/compare") {
+    setCors(req, res);
+    res.end();
+  }
+  else if (req.method === "POST" && pathname === "/compare") {
+    setCors(req, res);
+    const ctx = getRequestContext(req);
+    readBody(req, res, (reqBody) => postCompare(ctx, res, reqBody), MAX_IMAGE_REQUEST_BODY_BYTES);
+  }
+  else if (req.method === "OPTIONS" && pathname === "/v1/chat/completions") {
+    setCors(req, res);
+    res.end();
+  }
+  else if (req.method === "POST" && pathname === "/v1/chat/completions") {
+    setCors(req, res);
+    const ctx = getRequestContext(req);
+    readBody(req, res, (reqBody) => postChatCompletions(ctx, res, reqBody), MAX_IMAGE_REQUEST_BODY_BYTES);
+  }
+  else if (pathname === "/conversations" || pathname.startsWith("/conversations/")) {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    const id = pathname === "/conversations" ? undefined : safeDecode(pathname.slice("/conversations/".length));
+    const ctx = getRequestContext(req);
+    readBody(req, res, (reqBody) => handleConversations(ctx, req.method ?? "GET", id, res, reqBody), MAX_IMAGE_REQUEST_BODY_BYTES);
+  }
+  else if (pathname === "/files" || pathname.startsWith("/files/")) {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    const id = pathname === "/files" ? undefined : safeDecode(pathname.slice("/files/".length));
+    const ctx = getRequestContext(req);
+    readBody(req, res, (reqBody) => handleFiles(ctx, req.method ?? "GET", id, res, reqBody), MAX_IMAGE_REQUEST_BODY_BYTES);
+  }
+  else if (pathname.startsWith("/streams/")) {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    const id = safeDecode(pathname.slice("/streams/".length));
+    const ctx = getRequestContext(req);
+    if (req.method === "GET") {
+      getStream(ctx, id, req.headers["last-event-id"], searchParams, res);
+    } else if (req.method === "DELETE") {
+      deleteStream(ctx, id, res);
+    } else {
+      respondJson(res, () => Promise.reject(new HttpError(405, "Method not allowed")));
+    }
+  }
+  else if (pathname === "/collections" || pathname.startsWith("/collections/")) {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    const segments = pathname.slice("/collections".length).split("/").filter(Boolean).map(safeDecode);
+    const ctx = getRequestContext(req);
+    readBody(req, res, (reqBody) => handleCollections(ctx, req.method ?? "GET", segments, searchParams, res, reqBody), MAX_DOCUMENT_REQUEST_BODY_BYTES);
+  }
+  else if (pathname === "/models" || pathname === "/v1/models") {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    if (pathname === "/models") {
+      getModels(getRequestContext(req), res);
+    } else {
+      getOpenAIModels(getRequestContext(req), res);
+    }
+  }
+  else if (pathname === "/tools") {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    getTools(res);
+  }
+  else if (pathname === "/presets") {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    getPresets(res);
+  }
+  else if (pathname === "/usage") {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    getUsage(getRequestContext(req), searchParams, res);
+  }
+  else if (pathname === "/metrics") {
+    getMetrics(getRequestContext(req), res);
+  }
+  else if (pathname === "/admin/config" || pathname.startsWith("/admin/config/")) {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    const segments = pathname.slice("/admin/config".length).split("/").filter(Boolean).map(safeDecode);
+    const ctx = getRequestContext(req);
+    readBody(req, res, () => handleAdminConfig(ctx, req.method ?? "GET", segments, res));
+  }
+  else if (pathname === "/admin/users" || pathname.startsWith("/admin/users/")) {
+    setCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.end();
+      return;
+    }
+    const segments = pathname.slice("/admin/users".length).split("/").filter(Boolean).map(safeDecode);
+    const ctx = getRequestContext(req);
+    readBody(req, res, (reqBody) => handleAdminUsers(ctx, req.method ?? "GET", segments, res, reqBody));
   }
   else {
     res.writeHead(404, { "Content-Type": "text/plain" });
@@ -674,38 +4576,114 @@ const requestListener = (req: http.IncomingMessage, res: http.ServerResponse) =>
   }
 }
 
-const httpsServer = https
-  .createServer(
-    {
-      key: fs.readFileSync("./key.pem"),
-      cert: fs.readFileSync("./cert.pem"),
-    },
-    requestListener
-  )
+const httpsServer = serverSettings.certificates && https
+  .createServer(serverSettings.certificates, requestListener)
   .listen(port, () => {
-    console.log(`Server running on port ${port}`);
+    logger.info("server running", { port });
   });
 
-const httpServer = http.createServer((_req, res) => {
+// Behind a proxy that forwards everything to HTTP_PORT, requests that reached
+// the proxy over HTTPS are served even in redirect mode.
+const httpListener = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { http: mode } = serverSettings.config;
+  if (mode === "serve" || (mode === "redirect" && forwardedHeader(req, "x-forwarded-proto") === "https")) {
+    requestListener(req, res);
+    return;
+  }
+  if (mode === "redirect") {
+    const forwardedHost = forwardedHeader(req, "x-forwarded-host");
+    const host = forwardedHost ?? `${(req.headers.host ?? "").replace(/:\d+$/, "")}${Number(port) === 443 ? "" : `:${port}`}`;
+    if (!/^[\w.-]+(:\d+)?$|^\[[\da-f:]+\](:\d+)?$/i.test(host)) {
+      res.writeHead(400, { "Content-Type": "text/plain" });
+      res.end("Bad Request");
+      return;
+    }
+    // 308 keeps the method and body, unlike 301.
+    res.writeHead(308, { Location: `https://${host}${req.url ?? "/"}` });
+    res.end();
+    return;
+  }
   res.writeHead(403, { "Content-Type": "text/plain" });
   res.end("Forbidden");
-}).listen(httpPort);
+};
+
+const httpServer = http.createServer(httpListener).listen(httpPort, () => {
+  if (serverSettings.config.http === "serve") logger.info("server running", { port: httpPort, tls: false });
+});
 
-for (const server of [httpsServer, httpServer]) {
+const servers = [httpServer, ...(httpsServer ? [httpsServer] : [])];
+
+for (const server of servers) {
   server.on("error", (error) => {
-    console.error(`FATAL: ${error.message}`);
+    logger.error("server failed", { error });
     process.exit(1);
   });
 }
 
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, closing servers');
-  httpsServer.close();
-  httpServer.close();
-});
+// Watches the directory rather than the file so editors that save by
+// renaming a temp file over the original are picked up too.
+function watchConfigFile(file: string, reload: (reason: string) => void) {
+  let timer: NodeJS.Timeout | undefined;
+  fs.watch(path.dirname(path.resolve(file)), (_event, filename) => {
+    if (filename !== path.basename(file)) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => reload("file changed"), CONFIG_RELOAD_DEBOUNCE_MS);
+  }).unref();
+}
+
+watchConfigFile(MODELS_FILE, reloadModelRegistry);
+watchConfigFile(PRESETS_FILE, reloadPresets);
+watchConfigFile(MODERATION_FILE, reloadModeration);
+watchConfigFile(SERVER_FILE, reloadServerSettings);
+// Renewed certificates are usually written in place or swapped in by symlink.
+for (const file of serverSettings.config.tls ? [serverSettings.config.tls.key, serverSettings.config.tls.cert] : []) {
+  watchConfigFile(file, reloadServerSettings);
+}
+
+// Models come first since the moderation file refers to them.
+function reloadAll(reason: string) {
+  return {
+    models: reloadModelRegistry(reason),
+    presets: reloadPresets(reason),
+    moderation: reloadModeration(reason),
+    server: reloadServerSettings(reason),
+  };
+}
 
-process.on('SIGINT', () => {
-  console.log('\nSIGINT received, closing servers');
-  httpsServer.close();
-  httpServer.close();
+process.on('SIGHUP', () => {
+  reloadAll("SIGHUP");
 });
+
+const SHUTDOWN_POLL_MS = 250;
+
+// Stops accepting connections, lets running requests and streams finish for
+// up to shutdownTimeoutSeconds, then exits. A second signal exits right away.
+function shutdown(signal: string) {
+  if (shuttingDown) {
+    logger.warn("second signal received, exiting now", { signal });
+    process.exit(1);
+  }
+  shuttingDown = true;
+  const timeoutMs = serverSettings.config.shutdownTimeoutSeconds * 1000;
+  logger.info("shutting down, draining requests", { signal, requests: inFlightRequests, streams: clientStreamLimiter.total(), timeout_ms: timeoutMs });
+  for (const server of servers) {
+    server.close();
+    server.closeIdleConnections();
+  }
+  const deadline = Date.now() + timeoutMs;
+  const timer = setInterval(() => {
+    const streams = clientStreamLimiter.total();
+    const busy = inFlightRequests > 0 || streams > 0;
+    if (busy && Date.now() < deadline) return;
+    clearInterval(timer);
+    if (busy) {
+      logger.warn("shutdown timed out, cutting off requests", { requests: inFlightRequests, streams });
+    }
+    for (const server of servers) server.closeAllConnections();
+    logger.info("shutdown complete");
+    process.exit(0);
+  }, SHUTDOWN_POLL_MS);
+}
+
+process.on('SIGTERM', () => shutdown("SIGTERM"));
+process.on('SIGINT', () => shutdown("SIGINT"));
@@ -0,0 +1,196 @@
+import type { ChatMessage, JsonResponseFormat, LogProbContent, ModelConfig, SamplingParamName, SamplingParams, ToolCallDelta, ToolParams, Usage } from "./types.ts";
+import { HttpError } from "../errors.ts";
+
+// Room kept free for the reply when the request doesn't set max_tokens.
+export const DEFAULT_REPLY_TOKENS = 1024;
+// The legacy completions API returns at most 5 alternatives per token.
+export const INSTRUCT_MAX_TOP_LOGPROBS = 5;
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+export function parseDataUrl(url: string): { type: string; data: string } | undefined {
+  const match = url.match(DATA_URL_PATTERN);
+  return match ? { type: match[1]!, data: match[2]! } : undefined;
+}
+
+// Tool call arguments arrive as a JSON string from the client, but some APIs
+// want the parsed object. Bad JSON there is the caller's fault, not an outage.
+export function parseToolArguments(name: string, args: string | undefined): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    throw new HttpError(400, `Validation error: the arguments for tool call ${name} aren't valid JSON`);
+  }
+}
+
+export function chatContentText(content: ChatMessage["content"]): string {
+  return typeof content === "string" ? content : content.flatMap((part) => part.type === "text" ? [part.text] : []).join("");
+}
+
+export class DoubleNewlineReader {
+  reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>;
+  buffer: string;
+  decoder: InstanceType<typeof TextDecoder>;
+
+  constructor(reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>) {
+    this.reader = reader;
+    this.buffer = '';
+    this.decoder = new TextDecoder();
+  }
+
+  async readUntilDoubleNewline() {
+    while (true) {
+      const pos = this.buffer.indexOf('\n\n');
+      if (pos !== -1) {
+        const upToDoubleNewline = this.buffer.substring(0, pos + 2);
+        this.buffer = this.buffer.substring(pos + 2);
+        return { done: false, value: upToDoubleNewline };
+      }
+      const { done, value } = await this.reader.read();
+      if (done) {
+        if (this.buffer.length) {
+          const remaining = this.buffer;
+          this.buffer = '';
+          return { done: true, value: remaining };  // Return what's left if the stream is done
+        }
+        break;
+      }
+      const dataString = this.decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      this.buffer += dataString;  // Assuming value is a string; adjust if not
+    }
+    return { done: true, value: this.buffer };
+  }
+}
+
+// Maps request sampling parameters onto what this model accepts: unsupported
+// ones are dropped, temperature and max tokens are clamped to the model's
+// limits, and the caller's stop sequences are merged with the provider's.
+export function upstreamSamplingParams(params: SamplingParams, modelConfig: ModelConfig, maxTokensLimit?: number): Record<string, unknown> {
+  const { unsupportedParams, maxTokensParam, maxOutputTokens, temperatureRange, stop: providerStop } = modelConfig;
+  const supported = (name: SamplingParamName) => !unsupportedParams.includes(name);
+  const upstream: Record<string, unknown> = {};
+  if (params.temperature !== undefined && supported("temperature")) {
+    const [min, max] = temperatureRange;
+    upstream.temperature = Math.min(max, Math.max(min, params.temperature));
+  }
+  const maxTokens = params.max_tokens ?? maxTokensLimit;
+  if (maxTokens !== undefined && supported("max_tokens")) {
+    upstream[maxTokensParam] = Math.min(maxTokens, maxOutputTokens ?? Infinity, maxTokensLimit ?? Infinity);
+  }
+  if (params.top_p !== undefined && supported("top_p")) {
+    upstream.top_p = params.top_p;
+  }
+  if (params.seed !== undefined && supported("seed")) {
+    upstream.seed = params.seed;
+  }
+  if (params.reasoning_effort !== undefined && modelConfig.reasoning && supported("reasoning_effort")) {
+    upstream.reasoning_effort = params.reasoning_effort;
+  }
+  if (params.logprobs && modelConfig.logprobs && supported("logprobs")) {
+    if (modelConfig.apiType === 'chat') {
+      upstream.logprobs = true;
+      if (params.top_logprobs !== undefined && supported("top_logprobs")) upstream.top_logprobs = params.top_logprobs;
+    } else {
+      upstream.logprobs = Math.min(params.top_logprobs ?? 0, INSTRUCT_MAX_TOP_LOGPROBS);
+    }
+  }
+  const stop = [
+    ...(providerStop ? [providerStop] : []),
+    ...(typeof params.stop === "string" ? [params.stop] : params.stop ?? []),
+  ];
+  if (stop.length > 0 && supported("stop")) {
+    upstream.stop = stop.length === 1 ? stop[0] : stop;
+  }
+  return upstream;
+}
+
+export interface UpstreamRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  params: SamplingParams;
+  stream: boolean;
+  tools?: ToolParams;
+  // Only formats the model enforces natively, see upstreamResponseFormat.
+  responseFormat?: JsonResponseFormat;
+}
+
+// What one piece of an upstream reply adds to the completion. Usage is the
+// running total so far, not an increment.
+export interface CompletionDelta {
+  content?: string;
+  reasoning?: string;
+  toolCalls?: ToolCallDelta[];
+  logprobs?: LogProbContent[];
+  finishReason?: string;
+  usage?: Usage;
+}
+
+// One server-sent event, or one line of a newline-delimited JSON stream.
+export interface StreamEvent {
+  event?: string;
+  data: string;
+}
+
+// Everything that differs between upstream APIs. Adding a backend means
+// implementing this, listing it in ProviderApiSchema and providerAdapters,
+// and pointing a provider in models.json at it with `api`.
+export interface ProviderAdapter {
+  framing: "sse" | "ndjson";
+  chatRequest(modelConfig: ModelConfig, request: ChatRequest): UpstreamRequest;
+  // Returns a parser for a single streamed reply; it may keep state between events.
+  chatStreamParser(): (event: StreamEvent) => CompletionDelta[];
+  chatResponse(body: string): CompletionDelta;
+  // The message in an error response body, if it has one.
+  errorDetail(body: string): string | undefined;
+}
+
+export async function* readStreamEvents(reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>, framing: ProviderAdapter["framing"]): AsyncGenerator<StreamEvent> {
+  if (framing === "ndjson") {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = done ? "" : lines.pop()!;
+      for (const line of lines) {
+        if (line.trim()) yield { data: line };
+      }
+      if (done) return;
+    }
+  }
+  const doubleNewlineReader = new DoubleNewlineReader(reader);
+  while (true) {
+    const { done, value: block } = await doubleNewlineReader.readUntilDoubleNewline();
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice("event:".length).trim();
+      else if (line.startsWith("data:")) data.push(line.slice("data:".length).trimStart());
+    }
+    if (data.length > 0 && data.join("\n") !== "[DONE]") {
+      yield { ...(event !== undefined ? { event } : {}), data: data.join("\n") };
+    }
+    if (done) return;
+  }
+}
+
+export function bearerHeaders(bearerToken: string | undefined): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(bearerToken ? { Authorization: `Bearer ${bearerToken}` } : {}),
+  };
+}
+
+export function stopSequences(stop: unknown): string[] | undefined {
+  return stop === undefined ? undefined : typeof stop === "string" ? [stop] : stop as string[];
+}
+
+export function tokenUsage(inputTokens: number, outputTokens: number): Usage {
+  return { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens };
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { HttpError, UpstreamError } from "../errors.ts";
+import { anthropicAdapter, anthropicMessages } from "./anthropic.ts";
+import { mockServer, send, sse, streamDeltas, testModelConfig, type MockServer } from "./testing.ts";
+
+let server: MockServer | undefined;
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+test("moves system messages out and merges consecutive roles", () => {
+  const { system, messages } = anthropicMessages([
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Hi" },
+    { role: "assistant", content: "", tool_calls: [{ id: "call_1", type: "function", function: { name: "f", arguments: "{\"a\":1}" } }] },
+    { role: "tool", tool_call_id: "call_1", content: "42" },
+    { role: "user", content: "Thanks" },
+    { role: "assistant", content: "You're welcome " },
+  ]);
+  assert.equal(system, "Be brief.");
+  assert.deepEqual(messages, [
+    { role: "user", content: [{ type: "text", text: "Hi" }] },
+    { role: "assistant", content: [{ type: "tool_use", id: "call_1", name: "f", input: { a: 1 } }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: "42" }, { type: "text", text: "Thanks" }] },
+    { role: "assistant", content: [{ type: "text", text: "You're welcome" }] },
+  ]);
+});
+
+test("rejects tool call arguments that aren't JSON as a client error", () => {
+  assert.throws(
+    () => anthropicMessages([{ role: "assistant", content: "", tool_calls: [{ id: "call_1", type: "function", function: { name: "f", arguments: "{oops" } }] }]),
+    (error) => error instanceof HttpError && !(error instanceof UpstreamError) && error.status === 400,
+  );
+});
+
+test("sends a Messages request and parses the streamed reply", async () => {
+  server = await mockServer((_body, res) => sse(res, [
+    { event: "message_start", data: { type: "message_start", message: { usage: { input_tokens: 7 } } } },
+    { event: "content_block_delta", data: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } } },
+    { event: "content_block_delta", data: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "lo" } } },
+    { event: "message_delta", data: { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 2 } } },
+    { event: "message_stop", data: { type: "message_stop" } },
+  ]));
+  const modelConfig = testModelConfig({ api: "anthropic", baseUrl: server.baseUrl });
+  const request = anthropicAdapter.chatRequest(modelConfig, {
+    messages: [{ role: "system", content: "Be brief." }, { role: "user", content: "Hello" }],
+    params: { stop: "END" },
+    stream: true,
+  });
+  const deltas = await streamDeltas(anthropicAdapter, await send(request));
+
+  const [received] = server.requests;
+  assert.equal(received!.url, "/messages");
+  assert.equal(received!.headers["x-api-key"], "secret");
+  assert.equal(received!.body.system, "Be brief.");
+  assert.equal(received!.body.max_tokens, 1024);
+  assert.deepEqual(received!.body.stop_sequences, ["END"]);
+  assert.equal(deltas.map((delta) => delta.content ?? "").join(""), "Hello");
+  assert.equal(deltas.at(-1)?.finishReason, "stop");
+  assert.deepEqual(deltas.at(-1)?.usage, { prompt_tokens: 7, completion_tokens: 2, total_tokens: 9 });
+});
+
+test("turns a streamed overload into a retryable upstream error", async () => {
+  server = await mockServer((_body, res) => sse(res, [
+    { event: "error", data: { type: "error", error: { type: "overloaded_error", message: "Overloaded" } } },
+  ]));
+  const modelConfig = testModelConfig({ api: "anthropic", baseUrl: server.baseUrl });
+  const response = await send(anthropicAdapter.chatRequest(modelConfig, { messages: [{ role: "user", content: "Hello" }], params: {}, stream: true }));
+  await assert.rejects(streamDeltas(anthropicAdapter, response), (error) => error instanceof UpstreamError && error.upstreamStatus === 529);
+});
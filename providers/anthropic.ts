@@ -0,0 +1,141 @@
+import type { ChatMessage, ToolChoice } from "./types.ts";
+import { UpstreamError } from "../errors.ts";
+import { DEFAULT_REPLY_TOKENS, chatContentText, parseDataUrl, parseToolArguments, stopSequences, tokenUsage, upstreamSamplingParams, type ProviderAdapter } from "./adapter.ts";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const ANTHROPIC_STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+};
+
+function anthropicContent(content: ChatMessage["content"]): object[] {
+  if (typeof content === "string") return content ? [{ type: "text", text: content }] : [];
+  return content.map((part) => {
+    if (part.type === "text") return { type: "text", text: part.text };
+    const { type: media_type, data } = parseDataUrl(part.image_url.url)!;
+    return { type: "image", source: { type: "base64", media_type, data } };
+  });
+}
+
+// System messages move to the top-level `system` field, tool calls and
+// results become content blocks, and consecutive messages from the same
+// role are merged since the API requires the roles to alternate.
+export function anthropicMessages(messages: ChatMessage[]): { system: string | undefined; messages: { role: "user" | "assistant"; content: object[] }[] } {
+  const system = messages.filter((m) => m.role === "system").map((m) => chatContentText(m.content));
+  const merged: { role: "user" | "assistant"; content: object[] }[] = [];
+  for (const m of messages) {
+    if (m.role === "system") continue;
+    const role = m.role === "assistant" ? "assistant" : "user";
+    const content = m.role === "tool"
+      ? [{ type: "tool_result", tool_use_id: m.tool_call_id, content: chatContentText(m.content) }]
+      : [
+        ...anthropicContent(m.content),
+        ...(m.tool_calls ?? []).map(({ id, function: { name, arguments: args } }) => ({ type: "tool_use", id, name, input: parseToolArguments(name, args) })),
+      ];
+    const last = merged.at(-1);
+    if (last?.role === role) last.content.push(...content);
+    else merged.push({ role, content });
+  }
+  // A prefilled reply may not end in whitespace.
+  const prefill = merged.at(-1)?.role === "assistant" ? merged.at(-1)!.content.at(-1) : undefined;
+  if (prefill && "text" in prefill && typeof prefill.text === "string") prefill.text = prefill.text.trimEnd();
+  return { system: system.length > 0 ? system.join("\n\n") : undefined, messages: merged };
+}
+
+function anthropicToolChoice(toolChoice: ToolChoice): object {
+  if (toolChoice === "none") return { type: "none" };
+  if (toolChoice === "required") return { type: "any" };
+  if (toolChoice === "auto") return { type: "auto" };
+  return { type: "tool", name: toolChoice.function.name };
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "thinking"; thinking: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown };
+
+// Anthropic's Messages API. JSON output relies on prompt instructions, and
+// reasoning_effort, seed and logprobs aren't supported.
+export const anthropicAdapter: ProviderAdapter = {
+  framing: "sse",
+  chatRequest(modelConfig, { messages, params, stream, tools }) {
+    const { system, messages: anthropic } = anthropicMessages(messages);
+    const { temperature, top_p, stop, ...upstream } = upstreamSamplingParams(params, modelConfig);
+    const stopSequencesList = stopSequences(stop);
+    return {
+      url: `${modelConfig.baseUrl}/messages`,
+      headers: {
+        "Content-Type": "application/json",
+        "anthropic-version": ANTHROPIC_VERSION,
+        ...(modelConfig.bearerToken ? { "x-api-key": modelConfig.bearerToken } : {}),
+      },
+      body: {
+        model: modelConfig.upstreamModel,
+        messages: anthropic,
+        ...(system !== undefined ? { system } : {}),
+        // Required by the API, unlike OpenAI's.
+        max_tokens: upstream[modelConfig.maxTokensParam] ?? modelConfig.maxOutputTokens ?? DEFAULT_REPLY_TOKENS,
+        stream,
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(top_p !== undefined ? { top_p } : {}),
+        ...(stopSequencesList ? { stop_sequences: stopSequencesList } : {}),
+        ...(tools ? {
+          tools: tools.tools.map(({ function: { name, description, parameters } }) => ({ name, description, input_schema: parameters ?? { type: "object" } })),
+          ...(tools.tool_choice !== undefined ? { tool_choice: anthropicToolChoice(tools.tool_choice) } : {}),
+        } : {}),
+      },
+    };
+  },
+  chatStreamParser() {
+    let inputTokens = 0;
+    return ({ event, data: dataString }) => {
+      const data = JSON.parse(dataString);
+      switch (event ?? data.type) {
+        case "message_start":
+          inputTokens = data.message.usage?.input_tokens ?? 0;
+          return [];
+        case "content_block_start":
+          return data.content_block.type === "tool_use"
+            ? [{ toolCalls: [{ index: data.index, id: data.content_block.id, function: { name: data.content_block.name, arguments: "" } }] }]
+            : [];
+        case "content_block_delta": {
+          const { delta } = data;
+          if (delta.type === "text_delta") return [{ content: delta.text }];
+          if (delta.type === "thinking_delta") return [{ reasoning: delta.thinking }];
+          if (delta.type === "input_json_delta") return [{ toolCalls: [{ index: data.index, function: { arguments: delta.partial_json } }] }];
+          return [];
+        }
+        case "message_delta":
+          return [{
+            ...(data.delta.stop_reason ? { finishReason: ANTHROPIC_STOP_REASONS[data.delta.stop_reason] ?? data.delta.stop_reason } : {}),
+            usage: tokenUsage(inputTokens, data.usage?.output_tokens ?? 0),
+          }];
+        case "error":
+          throw new UpstreamError(data.error?.type === "overloaded_error" ? 529 : 500, 502, `Upstream error: ${data.error?.message ?? dataString}`);
+        default:
+          return [];
+      }
+    };
+  },
+  chatResponse(body) {
+    const data = JSON.parse(body);
+    const blocks: AnthropicContentBlock[] = data.content ?? [];
+    const toolCalls = blocks.flatMap((block) => block.type === "tool_use" ? [block] : []);
+    const reasoning = blocks.flatMap((block) => block.type === "thinking" ? [block.thinking] : []).join("");
+    return {
+      content: blocks.flatMap((block) => block.type === "text" ? [block.text] : []).join(""),
+      ...(reasoning ? { reasoning } : {}),
+      ...(toolCalls.length > 0 ? {
+        toolCalls: toolCalls.map((block, index) => ({ index, id: block.id, function: { name: block.name, arguments: JSON.stringify(block.input) } })),
+      } : {}),
+      ...(data.stop_reason ? { finishReason: ANTHROPIC_STOP_REASONS[data.stop_reason] ?? data.stop_reason } : {}),
+      ...(data.usage ? { usage: tokenUsage(data.usage.input_tokens, data.usage.output_tokens) } : {}),
+    };
+  },
+  errorDetail(body) {
+    return JSON.parse(body).error?.message;
+  },
+};
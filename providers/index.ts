@@ -0,0 +1,14 @@
+import type { ProviderApi } from "./types.ts";
+import type { ProviderAdapter } from "./adapter.ts";
+import { anthropicAdapter } from "./anthropic.ts";
+import { ollamaAdapter } from "./ollama.ts";
+import { openAIAdapter } from "./openai.ts";
+
+export * from "./adapter.ts";
+export { anthropicAdapter, ollamaAdapter, openAIAdapter };
+
+export const providerAdapters: Record<ProviderApi, ProviderAdapter> = {
+  openai: openAIAdapter,
+  anthropic: anthropicAdapter,
+  ollama: ollamaAdapter,
+};
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { HttpError, UpstreamError } from "../errors.ts";
+import { ollamaAdapter, ollamaMessages } from "./ollama.ts";
+import { mockServer, send, streamDeltas, testModelConfig, type MockServer } from "./testing.ts";
+
+let server: MockServer | undefined;
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+test("passes images and parsed tool arguments through", () => {
+  const messages = ollamaMessages([
+    { role: "user", content: [{ type: "text", text: "What's this?" }, { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } }] },
+    { role: "assistant", content: "", tool_calls: [{ id: "call_1", type: "function", function: { name: "f", arguments: "{\"a\":1}" } }] },
+  ]);
+  assert.deepEqual(messages, [
+    { role: "user", content: "What's this?", images: ["AAAA"] },
+    { role: "assistant", content: "", tool_calls: [{ function: { name: "f", arguments: { a: 1 } } }] },
+  ]);
+  assert.throws(
+    () => ollamaMessages([{ role: "assistant", content: "", tool_calls: [{ id: "call_1", type: "function", function: { name: "f", arguments: "{oops" } }] }]),
+    (error) => error instanceof HttpError && !(error instanceof UpstreamError) && error.status === 400,
+  );
+});
+
+test("sends /api/chat with options and parses the line-delimited stream", async () => {
+  server = await mockServer((_body, res) => {
+    res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+    res.write(JSON.stringify({ message: { content: "Hel" }, done: false }) + "\n");
+    res.write(JSON.stringify({ message: { content: "lo", tool_calls: [{ function: { name: "f", arguments: { a: 1 } } }] }, done: false }) + "\n");
+    res.end(JSON.stringify({ message: { content: "" }, done: true, done_reason: "stop", prompt_eval_count: 4, eval_count: 2 }) + "\n");
+  });
+  const modelConfig = testModelConfig({ api: "ollama", baseUrl: server.baseUrl, bearerToken: undefined });
+  const request = ollamaAdapter.chatRequest(modelConfig, {
+    messages: [{ role: "user", content: "Hello" }],
+    params: { temperature: 0.2, max_tokens: 5, stop: "END" },
+    stream: true,
+  });
+  const deltas = await streamDeltas(ollamaAdapter, await send(request));
+
+  const [received] = server.requests;
+  assert.equal(received!.url, "/api/chat");
+  assert.equal(received!.headers.authorization, undefined);
+  assert.deepEqual(received!.body.options, { temperature: 0.2, num_predict: 5, stop: ["END"] });
+  assert.equal(deltas.map((delta) => delta.content ?? "").join(""), "Hello");
+  const [toolCall] = deltas.flatMap((delta) => delta.toolCalls ?? []);
+  assert.equal(toolCall?.function?.arguments, "{\"a\":1}");
+  assert.equal(deltas.at(-1)?.finishReason, "tool_calls");
+  assert.deepEqual(deltas.at(-1)?.usage, { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 });
+});
+
+test("turns an error line into an upstream error", async () => {
+  server = await mockServer((_body, res) => {
+    res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+    res.end(JSON.stringify({ error: "model not found" }) + "\n");
+  });
+  const modelConfig = testModelConfig({ api: "ollama", baseUrl: server.baseUrl });
+  const response = await send(ollamaAdapter.chatRequest(modelConfig, { messages: [{ role: "user", content: "Hello" }], params: {}, stream: true }));
+  await assert.rejects(streamDeltas(ollamaAdapter, response), (error) => error instanceof UpstreamError && error.message.includes("model not found"));
+});
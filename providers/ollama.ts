@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import type { ChatMessage } from "./types.ts";
+import { UpstreamError } from "../errors.ts";
+import { bearerHeaders, chatContentText, parseDataUrl, parseToolArguments, stopSequences, tokenUsage, upstreamSamplingParams, type ProviderAdapter } from "./adapter.ts";
+
+interface OllamaToolCall {
+  function: { name: string; arguments?: unknown };
+}
+
+export function ollamaMessages(messages: ChatMessage[]): object[] {
+  return messages.map((m) => {
+    const images = typeof m.content === "string" ? [] : m.content.flatMap((part) => part.type === "image_url" ? [parseDataUrl(part.image_url.url)!.data] : []);
+    return {
+      role: m.role,
+      content: chatContentText(m.content),
+      ...(images.length > 0 ? { images } : {}),
+      ...(m.tool_calls ? {
+        tool_calls: m.tool_calls.map(({ function: { name, arguments: args } }) => ({ function: { name, arguments: parseToolArguments(name, args) } })),
+      } : {}),
+    };
+  });
+}
+
+// Ollama's native /api/chat, streamed as one JSON object per line. Tool
+// calls arrive whole and without ids, so ids are made up here. llama.cpp's
+// server speaks the OpenAI API and uses that adapter instead.
+export const ollamaAdapter: ProviderAdapter = {
+  framing: "ndjson",
+  chatRequest(modelConfig, { messages, params, stream, tools, responseFormat }) {
+    const { temperature, top_p, seed, stop, ...upstream } = upstreamSamplingParams(params, modelConfig);
+    const maxTokens = upstream[modelConfig.maxTokensParam];
+    const options = {
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(top_p !== undefined ? { top_p } : {}),
+      ...(seed !== undefined ? { seed } : {}),
+      ...(maxTokens !== undefined ? { num_predict: maxTokens } : {}),
+      ...(stop !== undefined ? { stop: stopSequences(stop) } : {}),
+    };
+    return {
+      url: `${modelConfig.baseUrl}/api/chat`,
+      headers: bearerHeaders(modelConfig.bearerToken),
+      body: {
+        model: modelConfig.upstreamModel,
+        messages: ollamaMessages(messages),
+        stream,
+        options,
+        ...(tools && tools.tool_choice !== "none" ? { tools: tools.tools } : {}),
+        ...(responseFormat ? { format: responseFormat.type === "json_schema" ? responseFormat.json_schema.schema : "json" } : {}),
+      },
+    };
+  },
+  chatStreamParser() {
+    let toolCallCount = 0;
+    let sawToolCalls = false;
+    return ({ data: dataString }) => {
+      if (JSON.parse(dataString).error) {
+        throw new UpstreamError(500, 502, `Upstream error: ${ollamaAdapter.errorDetail(dataString)}`);
+      }
+      const delta = ollamaAdapter.chatResponse(dataString);
+      const toolCalls = delta.toolCalls?.map((toolCall) => ({ ...toolCall, index: toolCallCount++ }));
+      if (toolCalls) sawToolCalls = true;
+      return [{
+        ...delta,
+        ...(toolCalls ? { toolCalls } : {}),
+        ...(delta.finishReason && sawToolCalls ? { finishReason: "tool_calls" } : {}),
+      }];
+    };
+  },
+  chatResponse(body) {
+    const data = JSON.parse(body);
+    const { message } = data;
+    const toolCalls: OllamaToolCall[] = message?.tool_calls ?? [];
+    const usage = data.done && data.eval_count !== undefined ? tokenUsage(data.prompt_eval_count ?? 0, data.eval_count) : undefined;
+    return {
+      content: message?.content ?? "",
+      ...(message?.thinking ? { reasoning: message.thinking } : {}),
+      ...(toolCalls.length > 0 ? {
+        toolCalls: toolCalls.map((toolCall, index) => ({
+          index,
+          id: `call_${crypto.randomUUID()}`,
+          function: { name: toolCall.function.name, arguments: JSON.stringify(toolCall.function.arguments ?? {}) },
+        })),
+      } : {}),
+      ...(data.done ? { finishReason: toolCalls.length > 0 ? "tool_calls" : data.done_reason ?? "stop" } : {}),
+      ...(usage ? { usage } : {}),
+    };
+  },
+  errorDetail(body) {
+    const { error } = JSON.parse(body);
+    return typeof error === "string" ? error : undefined;
+  },
+};
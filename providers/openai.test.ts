@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { openAIAdapter } from "./openai.ts";
+import { mockServer, send, sse, streamDeltas, testModelConfig, type MockServer } from "./testing.ts";
+
+let server: MockServer | undefined;
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+test("sends the request to /chat/completions with the bearer token", async () => {
+  server = await mockServer((_body, res) => {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ choices: [{ message: { content: "Hi" }, finish_reason: "stop" }] }));
+  });
+  const modelConfig = testModelConfig({ baseUrl: server.baseUrl, unsupportedParams: ["seed"] });
+  const request = openAIAdapter.chatRequest(modelConfig, {
+    messages: [{ role: "user", content: "Hello" }],
+    params: { temperature: 0.5, seed: 1, max_tokens: 10 },
+    stream: false,
+  });
+  const delta = openAIAdapter.chatResponse(await (await send(request)).text());
+
+  const [received] = server.requests;
+  assert.equal(received!.url, "/chat/completions");
+  assert.equal(received!.headers.authorization, "Bearer secret");
+  assert.deepEqual(received!.body, {
+    model: "upstream-model",
+    messages: [{ role: "user", content: "Hello" }],
+    stream: false,
+    temperature: 0.5,
+    max_tokens: 10,
+  });
+  assert.equal(delta.content, "Hi");
+  assert.equal(delta.finishReason, "stop");
+});
+
+test("parses streamed content, tool calls and usage", async () => {
+  server = await mockServer((_body, res) => sse(res, [
+    { data: { choices: [{ delta: { content: "Hel" } }] } },
+    { data: { choices: [{ delta: { content: "lo", tool_calls: [{ index: 0, id: "call_1", function: { name: "f", arguments: "{}" } }] } }] } },
+    { data: { choices: [{ delta: {}, finish_reason: "tool_calls" }] } },
+    { data: { choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } } },
+    "[DONE]",
+  ]));
+  const modelConfig = testModelConfig({ baseUrl: server.baseUrl });
+  const request = openAIAdapter.chatRequest(modelConfig, { messages: [{ role: "user", content: "Hello" }], params: {}, stream: true });
+  const deltas = await streamDeltas(openAIAdapter, await send(request));
+
+  assert.deepEqual(server.requests[0]!.body.stream_options, { include_usage: true });
+  assert.equal(deltas.map((delta) => delta.content ?? "").join(""), "Hello");
+  assert.equal(deltas.flatMap((delta) => delta.toolCalls ?? [])[0]?.function?.name, "f");
+  assert.equal(deltas.find((delta) => delta.finishReason)?.finishReason, "tool_calls");
+  assert.deepEqual(deltas.at(-1)?.usage, { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 });
+});
+
+test("leaves out stream_options for servers that don't take it", () => {
+  const request = openAIAdapter.chatRequest(testModelConfig({ streamUsage: false }), { messages: [{ role: "user", content: "Hello" }], params: {}, stream: true });
+  assert.equal((request.body as Record<string, unknown>).stream_options, undefined);
+});
+
+test("reads the message from an error body", () => {
+  assert.equal(openAIAdapter.errorDetail(JSON.stringify({ error: { message: "Bad key" } })), "Bad key");
+});
@@ -0,0 +1,60 @@
+import type { ChatData, ToolCall } from "./types.ts";
+import { bearerHeaders, upstreamSamplingParams, type ProviderAdapter } from "./adapter.ts";
+
+// OpenAI's chat completions API, which most hosted providers and llama.cpp's
+// server also speak.
+export const openAIAdapter: ProviderAdapter = {
+  framing: "sse",
+  chatRequest(modelConfig, { messages, params, stream, tools, responseFormat }) {
+    return {
+      url: `${modelConfig.baseUrl}/chat/completions`,
+      headers: bearerHeaders(modelConfig.bearerToken),
+      body: {
+        model: modelConfig.upstreamModel,
+        messages,
+        stream,
+        ...(stream && modelConfig.streamUsage ? { stream_options: { include_usage: true } } : {}),
+        ...upstreamSamplingParams(params, modelConfig),
+        ...tools,
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      },
+    };
+  },
+  chatStreamParser() {
+    return ({ data: dataString }) => {
+      const data: ChatData = JSON.parse(dataString);
+      const usage = data.usage ? { usage: data.usage } : {};
+      const lastChoice = data.choices?.at(-1);
+      if (!lastChoice) return [usage];
+      const { delta } = lastChoice;
+      const reasoning = delta?.reasoning ?? delta?.reasoning_content;
+      const logprobs = lastChoice.logprobs?.content;
+      return [{
+        ...usage,
+        content: delta?.content ?? "",
+        ...(reasoning ? { reasoning } : {}),
+        ...(delta?.tool_calls ? { toolCalls: delta.tool_calls } : {}),
+        ...(logprobs ? { logprobs } : {}),
+        ...(lastChoice.finish_reason ? { finishReason: lastChoice.finish_reason } : {}),
+      }];
+    };
+  },
+  chatResponse(body) {
+    const data = JSON.parse(body);
+    const [choice] = data.choices;
+    const { message } = choice;
+    const reasoning: string | undefined = message.reasoning ?? message.reasoning_content ?? undefined;
+    const toolCalls: ToolCall[] | undefined = message.tool_calls;
+    return {
+      content: message.content ?? "",
+      ...(reasoning ? { reasoning } : {}),
+      ...(toolCalls?.length ? { toolCalls: toolCalls.map((toolCall, index) => ({ index, ...toolCall })) } : {}),
+      ...(choice.logprobs?.content ? { logprobs: choice.logprobs.content } : {}),
+      ...(choice.finish_reason ? { finishReason: choice.finish_reason } : {}),
+      ...(data.usage ? { usage: data.usage } : {}),
+    };
+  },
+  errorDetail(body) {
+    return JSON.parse(body).error?.message;
+  },
+};
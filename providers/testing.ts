@@ -0,0 +1,86 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import type { ModelConfig } from "./types.ts";
+import { readStreamEvents, type CompletionDelta, type ProviderAdapter, type UpstreamRequest } from "./adapter.ts";
+
+export interface MockServer {
+  baseUrl: string;
+  // Parsed JSON bodies of the requests received so far.
+  requests: { url: string; headers: http.IncomingHttpHeaders; body: Record<string, unknown> }[];
+  close(): Promise<void>;
+}
+
+// Serves `reply` for every request on a free local port. It gets the parsed
+// request body and writes the whole upstream response.
+export async function mockServer(reply: (body: Record<string, unknown>, res: http.ServerResponse) => void): Promise<MockServer> {
+  const requests: MockServer["requests"] = [];
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const body = JSON.parse(Buffer.concat(chunks).toString() || "{}");
+    requests.push({ url: req.url ?? "", headers: req.headers, body });
+    reply(body, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+export function testModelConfig(overrides: Partial<ModelConfig>): ModelConfig {
+  return {
+    model: "test-model",
+    provider: "test",
+    upstreamModel: "upstream-model",
+    apiType: "chat",
+    systemMessage: "default",
+    systemRole: true,
+    api: "openai",
+    bearerToken: "secret",
+    baseUrl: "http://127.0.0.1:1",
+    stop: undefined,
+    streaming: true,
+    streamUsage: true,
+    authed: false,
+    price: { input: 0, output: 0 },
+    unsupportedParams: [],
+    maxTokensParam: "max_tokens",
+    maxOutputTokens: undefined,
+    responseFormats: [],
+    logprobs: false,
+    reasoning: false,
+    vision: false,
+    toolCalling: true,
+    prefill: false,
+    contextWindow: 4096,
+    tokenizer: "gpt",
+    temperatureRange: [0, 2],
+    ...overrides,
+  };
+}
+
+export function send(request: UpstreamRequest): Promise<Response> {
+  return fetch(request.url, { method: "POST", headers: request.headers, body: JSON.stringify(request.body) });
+}
+
+// Runs a streamed upstream response through the adapter's parser.
+export async function streamDeltas(adapter: ProviderAdapter, response: Response): Promise<CompletionDelta[]> {
+  const parse = adapter.chatStreamParser();
+  const deltas: CompletionDelta[] = [];
+  for await (const event of readStreamEvents(response.body!.getReader(), adapter.framing)) {
+    deltas.push(...parse(event));
+  }
+  return deltas;
+}
+
+export function sse(res: http.ServerResponse, events: ({ event?: string; data: unknown } | string)[]): void {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  for (const event of events) {
+    if (typeof event === "string") res.write(`data: ${event}\n\n`);
+    else res.write(`${event.event ? `event: ${event.event}\n` : ""}data: ${JSON.stringify(event.data)}\n\n`);
+  }
+  res.end();
+}
@@ -0,0 +1,156 @@
+// Types shared by the server and the provider adapters. Request bodies are
+// validated with zod in index.ts; these describe the data once it's parsed.
+
+// Wire format spoken by a provider, see providerAdapters.
+export const PROVIDER_APIS = ["openai", "anthropic", "ollama"] as const;
+export type ProviderApi = (typeof PROVIDER_APIS)[number];
+
+export const SAMPLING_PARAM_NAMES = ["temperature", "max_tokens", "top_p", "seed", "stop", "reasoning_effort", "logprobs", "top_logprobs"] as const;
+export type SamplingParamName = (typeof SAMPLING_PARAM_NAMES)[number];
+
+export const TOKENIZER_FAMILIES = ["gpt", "llama", "mistral", "claude"] as const;
+export type TokenizerFamily = (typeof TOKENIZER_FAMILIES)[number];
+
+export interface SamplingParams {
+  temperature?: number | undefined;
+  max_tokens?: number | undefined;
+  top_p?: number | undefined;
+  seed?: number | undefined;
+  stop?: string | string[] | undefined;
+  reasoning_effort?: "minimal" | "low" | "medium" | "high" | undefined;
+  logprobs?: boolean | undefined;
+  top_logprobs?: number | undefined;
+}
+
+export type JsonResponseFormat =
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      json_schema: {
+        name: string;
+        description?: string | undefined;
+        schema: Record<string, unknown>;
+        strict?: boolean | undefined;
+      };
+    };
+
+interface TopLogProb {
+  token: string;
+  logprob: number;
+  selected?: boolean;
+}
+
+export interface LogProbContent {
+  token: string;
+  logprob: number;
+  bytes: number[];
+  top_logprobs: TopLogProb[];
+}
+
+export interface Logprobs {
+  content: LogProbContent[];
+  refusal: string | null;
+}
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// A chunk of OpenAI's streamed chat completion format.
+export interface ChatData {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices?: ChatChoice[];
+  usage?: Usage | null;
+}
+
+interface ChatChoice {
+  delta: ChatDelta;
+  index: number;
+  logprobs?: Logprobs | null;
+  finish_reason: string | null;
+}
+
+interface ChatDelta {
+  content: string;
+  // OpenRouter sends thinking as `reasoning`, DeepSeek as `reasoning_content`.
+  reasoning?: string | null;
+  reasoning_content?: string | null;
+  tool_calls?: ToolCallDelta[];
+}
+
+// Streamed tool calls arrive in fragments keyed by index; only the first
+// fragment of each call carries its id and name.
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string | undefined;
+    parameters?: Record<string, unknown> | undefined;
+    strict?: boolean | undefined;
+  };
+}
+
+export type ToolChoice = "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+
+export interface ToolParams {
+  tools: ToolDefinition[];
+  tool_choice?: ToolChoice;
+}
+
+// OpenAI's content-part format; adapters for other APIs convert it.
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string; detail?: "auto" | "low" | "high" | undefined } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | ChatContentPart[];
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ModelConfig {
+  model: string
+  provider: string
+  upstreamModel: string
+  apiType: 'chat' | 'instruct'
+  systemMessage: 'default' | 'custom'
+  systemRole: boolean
+  api: ProviderApi
+  bearerToken: string | undefined
+  baseUrl: string
+  stop: string | undefined
+  streaming: boolean
+  streamUsage: boolean
+  authed: boolean
+  price: { input: number, output: number }
+  unsupportedParams: SamplingParamName[]
+  maxTokensParam: 'max_tokens' | 'max_completion_tokens'
+  maxOutputTokens: number | undefined
+  responseFormats: JsonResponseFormat["type"][]
+  logprobs: boolean
+  reasoning: boolean
+  vision: boolean
+  toolCalling: boolean
+  prefill: boolean
+  contextWindow: number
+  tokenizer: TokenizerFamily
+  temperatureRange: [number, number]
+}
@@ -0,0 +1,156 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import http from "http";
+import net from "net";
+import os from "os";
+import path from "path";
+import { sse } from "./providers/testing.ts";
+
+export const AUTH_KEY = "test-admin-key";
+
+export interface TestServer {
+  url: string;
+  // Temporary directory with the server's config and data files.
+  dir: string;
+  // Sends `body` as JSON with the admin key, another key, or none for null.
+  request(method: string, pathname: string, body?: unknown, authKey?: string | null): Promise<Response>;
+  // Everything the server has logged so far.
+  output(): string;
+  stop(): Promise<void>;
+}
+
+export interface TestServerOptions {
+  models: unknown;
+  moderation?: unknown;
+  env?: Record<string, string>;
+  // Written into the server's directory before it starts, keyed by file name.
+  files?: Record<string, string>;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer().listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    }).on("error", reject);
+  });
+}
+
+// Runs index.ts in a child process with its own config and data files, on
+// plain HTTP. The models should point at a mock upstream server.
+export async function startServer(options: TestServerOptions): Promise<TestServer> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-bot-test-"));
+  const write = (name: string, content: unknown) => fs.writeFileSync(path.join(dir, name), typeof content === "string" ? content : JSON.stringify(content));
+  write("secrets.json", { AUTH_KEY });
+  write("server.json", { tls: null, http: "serve", shutdownTimeoutSeconds: 1 });
+  write("models.json", options.models);
+  if (options.moderation) write("moderation.json", options.moderation);
+  for (const [name, content] of Object.entries(options.files ?? {})) write(name, content);
+
+  const httpPort = await freePort();
+  const child = spawn(process.execPath, ["--disable-warning=ExperimentalWarning", "index.ts"], {
+    cwd: import.meta.dirname,
+    env: {
+      ...process.env,
+      PORT: String(await freePort()),
+      HTTP_PORT: String(httpPort),
+      SECRETS_FILE: path.join(dir, "secrets.json"),
+      SERVER_FILE: path.join(dir, "server.json"),
+      MODELS_FILE: path.join(dir, "models.json"),
+      MODERATION_FILE: path.join(dir, "moderation.json"),
+      PRESETS_FILE: path.join(dir, "presets.json"),
+      USERS_FILE: path.join(dir, "users.json"),
+      USAGE_FILE: path.join(dir, "usage.jsonl"),
+      CONVERSATIONS_DIR: path.join(dir, "conversations"),
+      COLLECTIONS_DIR: path.join(dir, "collections"),
+      FILES_DIR: path.join(dir, "files"),
+      ...options.env,
+    },
+  });
+  let output = "";
+  child.stdout.on("data", (chunk) => output += chunk);
+  child.stderr.on("data", (chunk) => output += chunk);
+  const exited = new Promise<void>((resolve) => child.on("exit", () => resolve()));
+
+  const url = `http://127.0.0.1:${httpPort}`;
+  const server: TestServer = {
+    url,
+    dir,
+    request: (method, pathname, body, authKey = AUTH_KEY) => fetch(`${url}${pathname}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(authKey !== null ? { Authorization: `Bearer ${authKey}` } : {}),
+      },
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+    }),
+    output: () => output,
+    stop: async () => {
+      child.kill();
+      await exited;
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+
+  const deadline = Date.now() + 10_000;
+  while (true) {
+    if (child.exitCode !== null) {
+      fs.rmSync(dir, { recursive: true, force: true });
+      throw new Error(`server exited with ${child.exitCode}:\n${output}`);
+    }
+    try {
+      await fetch(`${url}/models`);
+      return server;
+    } catch (error) {
+      if (Date.now() > deadline) {
+        await server.stop();
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+}
+
+// A registry with one OpenAI-format provider per base URL, named
+// upstream-1, upstream-2 and so on, and a "test-model" on the first.
+export function testModels(baseUrls: string[], model: Record<string, unknown> = {}) {
+  return {
+    providers: Object.fromEntries(baseUrls.map((baseUrl, i) => [`upstream-${i + 1}`, { baseUrl, streamUsage: true }])),
+    models: {
+      "test-model": {
+        provider: "upstream-1",
+        contextWindow: 4096,
+        price: { input: 1, output: 1 },
+        ...model,
+      },
+    },
+  };
+}
+
+// Answers an OpenAI chat request with `content`, streamed or not as asked.
+export function chatReply(body: Record<string, unknown>, res: http.ServerResponse, content: string, usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }) {
+  if (!body.stream) {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ choices: [{ message: { role: "assistant", content }, finish_reason: "stop" }], usage }));
+    return;
+  }
+  sse(res, [
+    { data: { choices: [{ index: 0, delta: { content }, finish_reason: null }] } },
+    { data: { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] } },
+    { data: { choices: [], usage } },
+    "[DONE]",
+  ]);
+}
+
+// Parses a `?format=events` response into its events.
+export async function readEvents(response: Response): Promise<{ event: string; data: Record<string, unknown>; id?: string }[]> {
+  const text = await response.text();
+  return text.split("\n\n").flatMap((block) => {
+    const fields = Object.fromEntries(block.split("\n").flatMap((line) => {
+      const match = /^(\w+): ?(.*)$/.exec(line);
+      return match ? [[match[1], match[2]]] : [];
+    }));
+    if (fields.data === undefined) return [];
+    return [{ event: fields.event ?? "message", data: JSON.parse(fields.data), ...(fields.id !== undefined ? { id: fields.id } : {}) }];
+  });
+}